@@ -1,24 +1,16 @@
-import axios from 'axios';
-
-interface DataResult {
-  score: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  issues: string[];
-  summary: string;
-  details: Record<string, any>;
-  scanTime: number;
-}
-
-export class DataAnalyzer {
-  private readonly STACKS_API = process.env.STACKS_API_URL || 'https://api.hiro.so';
+import { AnalysisResult, Analyzer, CanonicalTarget, describeSample, stacksApi, targetAddress, walkTransactions } from '@agentswarm/agent-kit';
+import { analyzeHolderDistribution, evaluateHolderDistribution, fetchHolders } from './HolderDistribution';
 
-  async analyze(tokenAddress: string): Promise<DataResult> {
+export class DataAnalyzer implements Analyzer {
+  async analyze(target: CanonicalTarget): Promise<AnalysisResult> {
     const startTime = Date.now();
 
     try {
-      // Resolve tx hashes to contract addresses
-      const resolvedAddress = await this.resolveAddress(tokenAddress);
-      const metrics = await this.fetchOnChainMetrics(resolvedAddress);
+      const resolvedAddress = targetAddress(target);
+      // A contract is described by its own calls, events and holders, not by its deployer's wallet
+      const metrics = target.contractId
+        ? await this.fetchContractMetrics(target.contractId, target.symbol)
+        : await this.fetchOnChainMetrics(resolvedAddress);
       const { score, issues } = this.evaluateMetrics(metrics);
       const riskLevel = this.determineRiskLevel(score);
       const scanTime = Date.now() - startTime;
@@ -28,61 +20,139 @@ export class DataAnalyzer {
         riskLevel,
         issues: issues.map(i => i.description),
         summary: this.generateSummary(score, riskLevel, metrics, issues),
-        details: { ...metrics, checksPerformed: 6, resolvedFrom: tokenAddress !== resolvedAddress ? tokenAddress : undefined },
+        // Holder distribution adds five concentration checks for tokens
+        details: { ...metrics, checksPerformed: metrics.holderDistribution ? 11 : 6, resolvedFrom: target.input !== resolvedAddress ? target.input : undefined },
+        // Activity metrics firm up as the sample grows; 50 sampled txs count as a full window
+        confidence: Math.round((0.4 + 0.6 * Math.min(1, metrics.recentTxSample / 50)) * 100) / 100,
         scanTime
       };
     } catch (error: any) {
       console.error('❌ On-chain data fetch failed:', error.message);
-      throw new Error(`Data analysis failed for ${tokenAddress}: ${error.message}`);
+      throw new Error(`Data analysis failed for ${target.input}: ${error.message}`);
     }
   }
 
-  private async resolveAddress(address: string): Promise<string> {
-    const headers: Record<string, string> = {};
-    if (process.env.HIRO_API_KEY) headers['x-hiro-api-key'] = process.env.HIRO_API_KEY;
-
-    if (address.startsWith('0x') && address.length === 66) {
-      console.log(`🔍 Resolving tx hash: ${address}`);
-      const txRes = await axios.get(`${this.STACKS_API}/extended/v1/tx/${address}`, { timeout: 10000, headers });
-      const contractId = txRes.data?.smart_contract?.contract_id;
-      if (contractId) {
-        console.log(`✅ Resolved to contract: ${contractId}`);
-        return contractId;
+  private async fetchContractMetrics(contractId: string, symbol: string | null): Promise<Record<string, any>> {
+    const contractName = contractId.split('.').slice(1).join('.');
+
+    const [contractInterface, txSample, eventPage, balances, ftMetadata] = await Promise.all([
+      stacksApi.getContractInterface(contractId).catch(() => null),
+      walkTransactions(contractId),
+      stacksApi.getContractEvents(contractId).catch(() => null),
+      stacksApi.getBalances(contractId).catch(() => null),
+      stacksApi.getFtMetadata(contractId).catch(() => null)
+    ]);
+
+    // Holders only exist for a contract that defines a fungible token
+    const ftName = contractInterface?.fungible_tokens?.[0]?.name || null;
+    const holderData = ftName
+      ? await fetchHolders(`${contractId}::${ftName}`).catch(() => null)
+      : null;
+
+    const txs = txSample.transactions;
+    const txCount = txSample.total;
+
+    // Calls made to this contract, by function
+    const callDistribution: Record<string, number> = {};
+    const callers = new Set<string>();
+    let totalFees = 0;
+    txs.forEach(tx => {
+      totalFees += parseInt(tx.fee_rate || '0');
+      if (tx.tx_type === 'contract_call' && tx.contract_call?.contract_id === contractId) {
+        const fn = tx.contract_call.function_name;
+        callDistribution[fn] = (callDistribution[fn] || 0) + 1;
+        if (tx.sender_address) callers.add(tx.sender_address);
       }
-      const calledContract = txRes.data?.contract_call?.contract_id;
-      if (calledContract) return calledContract;
-      const sender = txRes.data?.sender_address;
-      if (sender) return sender;
-      throw new Error(`Cannot resolve tx ${address} to a Stacks address`);
-    }
-    return address;
+    });
+    const contractCalls = Object.values(callDistribution).reduce((sum, n) => sum + n, 0);
+
+    // Recent events by type, with token mints/burns/transfers split out
+    const events = eventPage?.results || [];
+    const eventTypes: Record<string, number> = {};
+    const assetEvents: Record<string, number> = { mint: 0, burn: 0, transfer: 0 };
+    events.forEach(event => {
+      eventTypes[event.event_type] = (eventTypes[event.event_type] || 0) + 1;
+      if (event.event_type === 'fungible_token_asset' && event.asset) {
+        assetEvents[event.asset.asset_event_type] = (assetEvents[event.asset.asset_event_type] || 0) + 1;
+      }
+    });
+
+    const totalSupply = holderData?.totalSupply || Number(ftMetadata?.total_supply || 0) || null;
+    const supply = totalSupply || 0;
+    const topHolders = (holderData?.holders || []).slice(0, 5).map(h => ({
+      address: h.address,
+      balance: h.balance,
+      sharePercent: supply > 0 ? Math.round(h.balance / supply * 10000) / 100 : null
+    }));
+    const holderDistribution = holderData
+      ? analyzeHolderDistribution(holderData.holders, holderData.total, supply, contractId.split('.')[0])
+      : null;
+
+    const { oldestTx, newestTx, txVelocity } = this.activityWindow(txs);
+    const stxBalance = parseInt(balances?.stx?.balance || '0');
+
+    console.log(`📊 DataAgent: ${contractId} | calls=${contractCalls}/${txs.length} sampled (${txCount} total), callers=${callers.size}, holders=${holderData?.total ?? 'n/a'}`);
+
+    return {
+      scope: 'contract',
+      stxBalance,
+      stxBalanceSTX: (stxBalance / 1_000_000).toFixed(6),
+      txCount,
+      recentTxSample: txs.length,
+      txSample: describeSample(txSample),
+      recentActivityCount: txs.length,
+      hasRecentActivity: txs.length > 0,
+      oldestTxTimestamp: oldestTx?.burn_block_time_iso || null,
+      newestTxTimestamp: newestTx?.burn_block_time_iso || null,
+      uniqueInteractors: callers.size,
+      contractCalls,
+      callDistribution,
+      tokenTransfers: assetEvents.transfer,
+      smartContractDeploys: 0,
+      recentEventSample: events.length,
+      eventTypeDistribution: eventTypes,
+      tokenEvents: assetEvents,
+      totalFeesSpent: totalFees,
+      avgFeePerTx: txs.length > 0 ? Math.round(totalFees / txs.length) : 0,
+      txVelocityPerDay: txVelocity,
+      fungibleToken: ftName,
+      symbol: symbol || ftMetadata?.symbol || null,
+      decimals: ftMetadata?.decimals ?? null,
+      totalSupply,
+      holderCount: holderData ? holderData.total : null,
+      topHolders,
+      topHolderSharePercent: topHolders[0]?.sharePercent ?? null,
+      holderDistribution,
+      contractAddress: contractId,
+      contractName,
+      dataSource: 'hiro-api'
+    };
   }
 
-  private async fetchOnChainMetrics(address: string): Promise<Record<string, any>> {
-    const headers: Record<string, string> = {};
-    if (process.env.HIRO_API_KEY) {
-      headers['x-hiro-api-key'] = process.env.HIRO_API_KEY;
-    }
+  // Oldest and newest sampled tx, and how many txs a day the sample spans
+  private activityWindow(txs: Array<{ burn_block_time?: number }>): { oldestTx: any; newestTx: any; txVelocity: number } {
+    const oldestTx = txs.length > 0 ? txs[txs.length - 1] : null;
+    const newestTx = txs.length > 0 ? txs[0] : null;
+    const timeSpanDays = oldestTx?.burn_block_time && newestTx?.burn_block_time
+      ? Math.max(1, (newestTx.burn_block_time - oldestTx.burn_block_time) / 86400)
+      : 1;
+    return { oldestTx, newestTx, txVelocity: Math.round((txs.length / timeSpanDays) * 100) / 100 };
+  }
 
+  private async fetchOnChainMetrics(address: string): Promise<Record<string, any>> {
     const parts = address.split('.');
     const principal = parts[0];
     const contractName = parts.length > 1 ? parts.slice(1).join('.') : null;
 
-    const [accountInfo, txHistory, nftHoldings] = await Promise.all([
-      axios.get(`${this.STACKS_API}/extended/v1/address/${principal}/balances`, {
-        timeout: 10000, headers
-      }),
-      axios.get(`${this.STACKS_API}/extended/v1/address/${principal}/transactions?limit=50`, {
-        timeout: 10000, headers
-      }),
-      axios.get(`${this.STACKS_API}/extended/v1/address/${principal}/assets`, {
-        timeout: 10000, headers
-      }).catch(() => null)
+    const [accountInfo, txSample, nftHoldings] = await Promise.all([
+      stacksApi.getBalances(principal),
+      walkTransactions(principal),
+      stacksApi.getAssets(principal).catch(() => null)
     ]);
 
-    const stxBalance = parseInt(accountInfo?.data?.stx?.balance || '0');
-    const txs = txHistory?.data?.results || [];
-    const txCount = txHistory?.data?.total || 0;
+    const stxBalance = parseInt(accountInfo?.stx?.balance || '0');
+    const txs = txSample.transactions;
+    const txCount = txSample.total;
     
     // Analyze transaction type distribution
     const txTypes: Record<string, number> = {};
@@ -103,25 +173,22 @@ export class DataAnalyzer {
     });
 
     // Calculate activity velocity
-    const oldestTx = txs.length > 0 ? txs[txs.length - 1] : null;
-    const newestTx = txs.length > 0 ? txs[0] : null;
-    const timeSpanDays = oldestTx?.burn_block_time && newestTx?.burn_block_time
-      ? Math.max(1, (newestTx.burn_block_time - oldestTx.burn_block_time) / 86400)
-      : 1;
-    const txVelocity = Math.round((txs.length / timeSpanDays) * 100) / 100;
+    const { oldestTx, newestTx, txVelocity } = this.activityWindow(txs);
 
     // Get fungible token holdings count
-    const ftCount = Object.keys(accountInfo?.data?.fungible_tokens || {}).length;
-    const nftCount = Object.keys(accountInfo?.data?.non_fungible_tokens || {}).length;
-    const assetCount = nftHoldings?.data?.results?.length || 0;
+    const ftCount = Object.keys(accountInfo?.fungible_tokens || {}).length;
+    const nftCount = Object.keys(accountInfo?.non_fungible_tokens || {}).length;
+    const assetCount = nftHoldings?.results?.length || 0;
 
-    console.log(`📊 DataAgent: balance=${stxBalance}, txs=${txCount}, unique=${uniqueAddresses.size}, velocity=${txVelocity}/day for ${principal}`);
+    console.log(`📊 DataAgent: balance=${stxBalance}, txs=${txCount} (sampled ${txs.length}), unique=${uniqueAddresses.size}, velocity=${txVelocity}/day for ${principal}`);
 
     return {
+      scope: 'wallet',
       stxBalance,
       stxBalanceSTX: (stxBalance / 1_000_000).toFixed(6),
       txCount,
       recentTxSample: txs.length,
+      txSample: describeSample(txSample),
       recentActivityCount: txs.length,
       hasRecentActivity: txs.length > 0,
       oldestTxTimestamp: oldestTx?.burn_block_time_iso || null,
@@ -147,7 +214,8 @@ export class DataAnalyzer {
     const issues: Array<{severity: string; description: string}> = [];
     let score = 100;
 
-    if (metrics.stxBalance < 1000000) {
+    // Token contracts rarely hold STX themselves, so balance only matters for wallets
+    if (metrics.scope === 'wallet' && metrics.stxBalance < 1000000) {
       issues.push({ severity: 'medium', description: `Low STX balance (${metrics.stxBalanceSTX} STX) - may indicate inactive or drained contract` });
       score -= 15;
     }
@@ -170,16 +238,34 @@ export class DataAnalyzer {
       score -= 15;
     }
 
-    if (metrics.tokenTransfers > metrics.txCount * 0.8 && metrics.txCount > 10) {
-      issues.push({ severity: 'medium', description: `${Math.round(metrics.tokenTransfers / metrics.txCount * 100)}% of transactions are token transfers - unusual pattern` });
+    // Wallet transfers are counted in the tx sample, so they are compared with its size, not the all-time total.
+    // A token contract's transfers come from its event sample and are its normal traffic, so it is not checked.
+    if (metrics.scope === 'wallet' && metrics.tokenTransfers > metrics.recentTxSample * 0.8 && metrics.recentTxSample > 10) {
+      issues.push({ severity: 'medium', description: `${Math.round(metrics.tokenTransfers / metrics.recentTxSample * 100)}% of ${metrics.recentTxSample} sampled transactions are token transfers - unusual pattern` });
       score -= 10;
     }
 
+    if (metrics.holderCount !== null && metrics.holderCount !== undefined) {
+      if (metrics.holderCount < 10) {
+        issues.push({ severity: 'high', description: `Only ${metrics.holderCount} token holders - supply is barely distributed` });
+        score -= 15;
+      } else if (metrics.holderCount < 50) {
+        issues.push({ severity: 'medium', description: `${metrics.holderCount} token holders - thin holder base` });
+        score -= 5;
+      }
+    }
+
     if (metrics.txVelocityPerDay > 100) {
       issues.push({ severity: 'low', description: `High tx velocity (${metrics.txVelocityPerDay}/day) - may indicate automated trading` });
       score -= 5;
     }
 
+    if (metrics.holderDistribution) {
+      const distribution = evaluateHolderDistribution(metrics.holderDistribution);
+      issues.push(...distribution.issues);
+      score -= distribution.penalty;
+    }
+
     return { score: Math.max(0, score), issues };
   }
 
@@ -192,6 +278,25 @@ export class DataAnalyzer {
 
   private generateSummary(score: number, riskLevel: string, metrics: Record<string, any>, issues: Array<{description: string}>): string {
     const lines: string[] = [];
+    if (metrics.scope === 'contract') {
+      const topCalls = Object.entries(metrics.callDistribution as Record<string, number>)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([fn, count]) => `${fn} ×${count}`);
+      lines.push(`On-Chain Analysis of ${metrics.symbol || metrics.contractName}`);
+      lines.push(`${metrics.txCount.toLocaleString()} total transactions; ${metrics.contractCalls} of the ${metrics.recentTxSample} sampled are calls from ${metrics.uniqueInteractors} unique callers`);
+      if (topCalls.length > 0) lines.push(`Most called: ${topCalls.join(', ')}`);
+      if (metrics.holderCount !== null) {
+        lines.push(`${metrics.holderCount.toLocaleString()} holders${metrics.topHolderSharePercent !== null ? `, largest holds ${metrics.topHolderSharePercent}% of supply` : ''}`);
+      }
+      if (metrics.holderDistribution) {
+        const dist = metrics.holderDistribution;
+        lines.push(`Top 10 wallets hold ${dist.top10WalletSharePercent}% (${dist.top10SharePercent}% with contracts); Gini ${dist.gini} across the ${dist.giniScope}`);
+      }
+      lines.push(`Velocity: ${metrics.txVelocityPerDay} tx/day`);
+      lines.push(`Score: ${score}/100 (${riskLevel}). ${issues.length > 0 ? issues[0].description : 'No anomalies detected'}`);
+      return lines.join('. ');
+    }
     lines.push(`On-Chain Analysis of ${metrics.contractName || metrics.contractAddress}`);
     lines.push(`${metrics.txCount.toLocaleString()} total transactions from ${metrics.uniqueInteractors} unique addresses`);
     lines.push(`Balance: ${metrics.stxBalanceSTX} STX | Velocity: ${metrics.txVelocityPerDay} tx/day`);
@@ -0,0 +1,133 @@
+import { stacksApi } from '@agentswarm/agent-kit';
+
+// Hiro returns holders largest-first, so the first pages carry nearly all of the supply
+const HOLDER_PAGE_SIZE = 50;
+const MAX_HOLDER_PAGES = 10;
+
+export interface HolderBalance {
+  address: string;
+  balance: number;
+}
+
+export interface HolderDistribution {
+  holderCount: number;       // all holders Hiro knows of
+  holdersSampled: number;    // holders the figures below are computed from
+  totalSupply: number;
+  gini: number;              // 0 = evenly spread, 1 = one holder has everything; over the sampled holders only
+  giniScope: string;         // what `gini` covers, e.g. "largest 500 of 1,204 holders"
+  topHolder: { address: string; sharePercent: number } | null; // largest non-contract holder
+  top10SharePercent: number;       // ten largest holders of any kind, LP pools and vaults included
+  top10WalletSharePercent: number; // ten largest non-contract holders; what whale concentration is judged on
+  deployerSharePercent: number;
+  contractSharePercent: number; // held by contract principals: LP pools, vaults, bridges
+  contractHolders: Array<{ address: string; sharePercent: number }>;
+}
+
+// Reads holder pages until the list or the page budget runs out
+export async function fetchHolders(assetId: string): Promise<{ holders: HolderBalance[]; total: number; totalSupply: number }> {
+  const holders: HolderBalance[] = [];
+  let total = 0;
+  let totalSupply = 0;
+
+  for (let page = 0; page < MAX_HOLDER_PAGES; page++) {
+    const result = await stacksApi.getFtHolders(assetId, HOLDER_PAGE_SIZE, page * HOLDER_PAGE_SIZE);
+    total = result.total || 0;
+    totalSupply = Number(result.total_supply || 0);
+    holders.push(...(result.results || []).map(h => ({ address: h.address, balance: Number(h.balance) })));
+    if ((result.results || []).length < HOLDER_PAGE_SIZE || holders.length >= total) break;
+  }
+
+  return { holders, total, totalSupply };
+}
+
+function share(amount: number, supply: number): number {
+  return supply > 0 ? Math.round(amount / supply * 10000) / 100 : 0;
+}
+
+// Gini coefficient over the sampled balances
+function gini(balances: number[]): number {
+  const sorted = balances.filter(b => b > 0).sort((a, b) => a - b);
+  const n = sorted.length;
+  const sum = sorted.reduce((s, b) => s + b, 0);
+  if (n < 2 || sum === 0) return 0;
+  const weighted = sorted.reduce((s, b, i) => s + (i + 1) * b, 0);
+  return Math.round(((2 * weighted) / (n * sum) - (n + 1) / n) * 1000) / 1000;
+}
+
+export function analyzeHolderDistribution(
+  holders: HolderBalance[],
+  holderCount: number,
+  totalSupply: number,
+  deployer: string
+): HolderDistribution {
+  // Fall back to the sampled balances when Hiro reports no supply
+  const supply = totalSupply > 0 ? totalSupply : holders.reduce((s, h) => s + h.balance, 0);
+  const byBalance = [...holders].sort((a, b) => b.balance - a.balance);
+
+  const isContract = (address: string) => address.includes('.');
+  const contracts = byBalance.filter(h => isContract(h.address));
+  const wallets = byBalance.filter(h => !isContract(h.address));
+  const sum = (list: HolderBalance[]) => list.reduce((s, h) => s + h.balance, 0);
+
+  return {
+    holderCount,
+    holdersSampled: holders.length,
+    totalSupply: supply,
+    gini: gini(holders.map(h => h.balance)),
+    giniScope: holders.length < holderCount
+      ? `largest ${holders.length.toLocaleString()} of ${holderCount.toLocaleString()} holders`
+      : `all ${holders.length.toLocaleString()} holders`,
+    topHolder: wallets[0] ? { address: wallets[0].address, sharePercent: share(wallets[0].balance, supply) } : null,
+    top10SharePercent: share(sum(byBalance.slice(0, 10)), supply),
+    top10WalletSharePercent: share(sum(wallets.slice(0, 10)), supply),
+    deployerSharePercent: share(sum(holders.filter(h => h.address === deployer)), supply),
+    contractSharePercent: share(sum(contracts), supply),
+    contractHolders: contracts.slice(0, 5).map(h => ({ address: h.address, sharePercent: share(h.balance, supply) }))
+  };
+}
+
+/**
+ * Concentration issues in the same shape as DataAnalyzer.evaluateMetrics, plus
+ * the points they take off the score.
+ */
+export function evaluateHolderDistribution(dist: HolderDistribution): { penalty: number; issues: Array<{severity: string; description: string}> } {
+  const issues: Array<{severity: string; description: string}> = [];
+  let penalty = 0;
+
+  if (dist.topHolder && dist.topHolder.sharePercent > 50) {
+    issues.push({ severity: 'high', description: `Top holder owns ${dist.topHolder.sharePercent}% of supply (${dist.topHolder.address})` });
+    penalty += 20;
+  } else if (dist.topHolder && dist.topHolder.sharePercent > 20) {
+    issues.push({ severity: 'medium', description: `Top holder owns ${dist.topHolder.sharePercent}% of supply` });
+    penalty += 10;
+  }
+
+  // Judged on wallets only: deep LP pools are liquidity, not whales
+  if (dist.top10WalletSharePercent > 80 && dist.holderCount > 10) {
+    issues.push({ severity: 'high', description: `Top 10 wallets control ${dist.top10WalletSharePercent}% of supply - whale-dominated` });
+    penalty += 15;
+  } else if (dist.top10WalletSharePercent > 60 && dist.holderCount > 10) {
+    issues.push({ severity: 'medium', description: `Top 10 wallets control ${dist.top10WalletSharePercent}% of supply` });
+    penalty += 5;
+  }
+
+  if (dist.deployerSharePercent > 20) {
+    issues.push({ severity: 'high', description: `Deployer still holds ${dist.deployerSharePercent}% of supply - can dump on holders` });
+    penalty += 15;
+  } else if (dist.deployerSharePercent > 5) {
+    issues.push({ severity: 'medium', description: `Deployer holds ${dist.deployerSharePercent}% of supply` });
+    penalty += 5;
+  }
+
+  if (dist.gini >= 0.9 && dist.holdersSampled >= 10) {
+    issues.push({ severity: 'low', description: `Highly unequal distribution (Gini ${dist.gini} across the ${dist.giniScope})` });
+    penalty += 5;
+  }
+
+  if (dist.contractSharePercent === 0 && dist.holderCount > 0) {
+    issues.push({ severity: 'low', description: 'No supply held by contracts or LP pools - no on-chain liquidity found' });
+    penalty += 5;
+  }
+
+  return { penalty, issues };
+}
@@ -1,23 +1,12 @@
-import axios from 'axios';
+import { AnalysisResult, Analyzer, CanonicalTarget, describeSample, stacksApi, walkTransactions } from '@agentswarm/agent-kit';
 
-interface HistoryResult {
-  score: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  issues: string[];
-  summary: string;
-  details: Record<string, any>;
-  scanTime: number;
-}
-
-export class HistoryAnalyzer {
-  private readonly STACKS_API = process.env.STACKS_API_URL || 'https://api.hiro.so';
-
-  async analyze(creatorAddress: string): Promise<HistoryResult> {
+export class HistoryAnalyzer implements Analyzer {
+  async analyze(target: CanonicalTarget): Promise<AnalysisResult> {
     const startTime = Date.now();
 
     try {
-      // Resolve tx hashes to addresses
-      const resolvedAddress = await this.resolveAddress(creatorAddress);
+      // For history, we want the creator: the contract's deployer or the account itself
+      const resolvedAddress = target.principal || target.input;
       const walletData = await this.fetchWalletHistory(resolvedAddress);
       const { score, issues } = this.evaluateHistory(walletData);
       const riskLevel = this.determineRiskLevel(score);
@@ -55,59 +44,33 @@ export class HistoryAnalyzer {
             totalSTXReceived: walletData.totalSTXReceived,
           },
           checksPerformed: 8,
-          resolvedFrom: creatorAddress !== resolvedAddress ? creatorAddress : undefined,
+          txSample: walletData.txSample,
+          resolvedFrom: target.input !== resolvedAddress ? target.input : undefined,
           contractAddress: resolvedAddress,
         },
+        // A wallet with few transactions says little about its owner
+        confidence: Math.round((0.4 + 0.6 * Math.min(1, walletData.recentTxCount / 50)) * 100) / 100,
         scanTime
       };
     } catch (error: any) {
       console.error('❌ History fetch failed:', error.message);
-      throw new Error(`History analysis failed for ${creatorAddress}: ${error.message}`);
-    }
-  }
-
-  private async resolveAddress(address: string): Promise<string> {
-    const headers: Record<string, string> = {};
-    if (process.env.HIRO_API_KEY) headers['x-hiro-api-key'] = process.env.HIRO_API_KEY;
-
-    if (address.startsWith('0x') && address.length === 66) {
-      console.log(`🔍 Resolving tx hash: ${address}`);
-      const txRes = await axios.get(`${this.STACKS_API}/extended/v1/tx/${address}`, { timeout: 10000, headers });
-      // For history, we want the sender (creator) address
-      const sender = txRes.data?.sender_address;
-      if (sender) {
-        console.log(`✅ Resolved to creator: ${sender}`);
-        return sender;
-      }
-      throw new Error(`Cannot resolve tx ${address} to a creator address`);
+      throw new Error(`History analysis failed for ${target.input}: ${error.message}`);
     }
-    return address;
   }
 
   private async fetchWalletHistory(address: string): Promise<Record<string, any>> {
-    const headers: Record<string, string> = {};
-    if (process.env.HIRO_API_KEY) {
-      headers['x-hiro-api-key'] = process.env.HIRO_API_KEY;
-    }
-
     const parts = address.split('.');
     const principal = parts[0];
 
-    const [balanceRes, txRes, contractsRes] = await Promise.all([
-      axios.get(`${this.STACKS_API}/extended/v1/address/${principal}/balances`, {
-        timeout: 10000, headers
-      }),
-      axios.get(`${this.STACKS_API}/extended/v1/address/${principal}/transactions?limit=50`, {
-        timeout: 10000, headers
-      }),
-      axios.get(`${this.STACKS_API}/extended/v1/address/${principal}/assets`, {
-        timeout: 10000, headers
-      }).catch(() => null)
+    const [balanceRes, txSample, contractsRes] = await Promise.all([
+      stacksApi.getBalances(principal),
+      walkTransactions(principal),
+      stacksApi.getAssets(principal).catch(() => null)
     ]);
 
-    const stxBalance = parseInt(balanceRes?.data?.stx?.balance || '0');
-    const txs = txRes?.data?.results || [];
-    const totalTxCount = txRes?.data?.total || 0;
+    const stxBalance = parseInt(balanceRes?.stx?.balance || '0');
+    const txs = txSample.transactions;
+    const totalTxCount = txSample.total;
     
     // Detailed transaction categorization
     const contractDeployments = txs.filter((tx: any) => tx.tx_type === 'smart_contract');
@@ -138,8 +101,11 @@ export class HistoryAnalyzer {
       if (partner) transferPartners.add(partner);
     });
     
-    // Wallet age
-    const oldestTx = txs.length > 0 ? txs[txs.length - 1] : null;
+    // Wallet age comes from the very first transaction, even when the walk stopped short of it
+    const firstTx = txSample.complete
+      ? undefined
+      : await stacksApi.getTransactions(principal, 1, totalTxCount - 1).then(page => page.results[0]).catch(() => undefined);
+    const oldestTx = firstTx || txs[txs.length - 1] || null;
     const walletAge = oldestTx?.burn_block_time 
       ? Math.floor((Date.now() / 1000 - oldestTx.burn_block_time) / 86400) 
       : 0;
@@ -155,10 +121,10 @@ export class HistoryAnalyzer {
     });
     
     // Fungible token count
-    const ftCount = Object.keys(balanceRes?.data?.fungible_tokens || {}).length;
-    const nftCount = Object.keys(balanceRes?.data?.non_fungible_tokens || {}).length;
+    const ftCount = Object.keys(balanceRes?.fungible_tokens || {}).length;
+    const nftCount = Object.keys(balanceRes?.non_fungible_tokens || {}).length;
 
-    console.log(`📜 HistoryAgent: age=${walletAge}d, txs=${totalTxCount}, deploys=${contractDeployments.length}, partners=${transferPartners.size}`);
+    console.log(`📜 HistoryAgent: age=${walletAge}d, txs=${totalTxCount} (sampled ${txs.length}), deploys=${contractDeployments.length}, partners=${transferPartners.size}`);
 
     return {
       principal,
@@ -182,8 +148,9 @@ export class HistoryAnalyzer {
       fungibleTokensHeld: ftCount,
       nftCollections: nftCount,
       recentTxCount: txs.length,
+      txSample: describeSample(txSample),
       hasMultipleContracts: contractDeployments.length > 1,
-      assetCount: contractsRes?.data?.results?.length || 0,
+      assetCount: contractsRes?.results?.length || 0,
       dataSource: 'hiro-api'
     };
   }
@@ -226,7 +193,8 @@ export class HistoryAnalyzer {
       score -= 10;
     }
 
-    if (data.tokenTransfers > data.totalTxCount * 0.7 && data.totalTxCount > 10) {
+    // Transfers are counted in the sample, so the ratio is against the sample size, not the all-time total
+    if (data.tokenTransfers > data.recentTxCount * 0.7 && data.recentTxCount > 10) {
       issues.push({ severity: 'high', description: `${Math.round(data.tokenTransfers / data.recentTxCount * 100)}% transfer ratio - possible fund extraction pattern` });
       score -= 15;
     }
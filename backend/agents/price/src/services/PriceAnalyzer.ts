@@ -1,23 +1,12 @@
 import axios from 'axios';
+import { AnalysisResult, Analyzer, CanonicalTarget, describeSample, targetAddress, walkTransactions } from '@agentswarm/agent-kit';
 
-interface PriceResult {
-  score: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  issues: string[];
-  summary: string;
-  details: Record<string, any>;
-  scanTime: number;
-}
-
-export class PriceAnalyzer {
-  private readonly STACKS_API = process.env.STACKS_API_URL || 'https://api.hiro.so';
-
-  async analyze(tokenAddress: string): Promise<PriceResult> {
+export class PriceAnalyzer implements Analyzer {
+  async analyze(target: CanonicalTarget): Promise<AnalysisResult> {
     const startTime = Date.now();
 
     try {
-      // Resolve tx hashes to contract addresses
-      const resolvedAddress = await this.resolveAddress(tokenAddress);
+      const resolvedAddress = targetAddress(target);
       const priceData = await this.fetchPriceData(resolvedAddress);
       const { score, issues } = this.evaluatePriceMetrics(priceData);
       const riskLevel = this.determineRiskLevel(score);
@@ -29,49 +18,17 @@ export class PriceAnalyzer {
         issues: issues.map(i => i.description),
         summary: this.generateSummary(score, riskLevel, priceData, issues),
         details: { ...priceData, checksPerformed: 5 },
+        // Market data is STX-wide rather than token-specific
+        confidence: 0.5,
         scanTime
       };
     } catch (error: any) {
       console.error('❌ Price data fetch failed:', error.message);
-      throw new Error(`Price analysis failed for ${tokenAddress}: ${error.message}`);
+      throw new Error(`Price analysis failed for ${target.input}: ${error.message}`);
     }
   }
 
-  private async resolveAddress(address: string): Promise<string> {
-    // If it's a tx hash (0x...), look up the transaction to find the contract
-    if (address.startsWith('0x') && address.length === 66) {
-      console.log(`🔍 Resolving tx hash to contract address: ${address}`);
-      const headers: Record<string, string> = {};
-      if (process.env.HIRO_API_KEY) headers['x-hiro-api-key'] = process.env.HIRO_API_KEY;
-      const txRes = await axios.get(`${this.STACKS_API}/extended/v1/tx/${address}`, { timeout: 10000, headers });
-      const contractId = txRes.data?.smart_contract?.contract_id;
-      if (contractId) {
-        console.log(`✅ Resolved to contract: ${contractId}`);
-        return contractId;
-      }
-      // If it's a contract call, use the contract being called
-      const calledContract = txRes.data?.contract_call?.contract_id;
-      if (calledContract) {
-        console.log(`✅ Resolved to called contract: ${calledContract}`);
-        return calledContract;
-      }
-      // Fall back to sender address
-      const sender = txRes.data?.sender_address;
-      if (sender) {
-        console.log(`✅ Resolved to sender: ${sender}`);
-        return sender;
-      }
-      throw new Error(`Transaction ${address} has no associated contract`);
-    }
-    return address;
-  }
-
   private async fetchPriceData(address: string): Promise<Record<string, any>> {
-    const headers: Record<string, string> = {};
-    if (process.env.HIRO_API_KEY) {
-      headers['x-hiro-api-key'] = process.env.HIRO_API_KEY;
-    }
-
     // Fetch extended STX market data from CoinGecko
     const cgResponse = await axios.get(
       'https://api.coingecko.com/api/v3/coins/blockstack?localization=false&tickers=false&community_data=false&developer_data=false&sparkline=false',
@@ -99,12 +56,9 @@ export class PriceAnalyzer {
     const principal = parts[0];
     const contractName = parts.length > 1 ? parts.slice(1).join('.') : null;
 
-    const txResponse = await axios.get(
-      `${this.STACKS_API}/extended/v1/address/${principal}/transactions?limit=50`,
-      { timeout: 10000, headers }
-    );
-    const txs = txResponse.data?.results || [];
-    const txCount = txResponse.data?.total || 0;
+    const txSample = await walkTransactions(principal);
+    const txs = txSample.transactions;
+    const txCount = txSample.total;
     
     // Analyze fee patterns and transaction activity
     let totalFees = 0;
@@ -125,7 +79,7 @@ export class PriceAnalyzer {
     // Calculate activity ratio (contract calls vs total)
     const activityRatio = txs.length > 0 ? Math.round((contractCallCount / txs.length) * 100) : 0;
 
-    console.log(`📊 Hiro: ${txCount} txs, ${contractCallCount} calls, avg fee ${avgFee} for ${principal}`);
+    console.log(`📊 Hiro: ${txCount} txs (sampled ${txs.length}), ${contractCallCount} calls, avg fee ${avgFee} for ${principal}`);
 
     return {
       stxPrice,
@@ -140,6 +94,7 @@ export class PriceAnalyzer {
       stxATHDate: stxATHDate ? new Date(stxATHDate).toISOString().split('T')[0] : null,
       stxATHChange,
       txCount,
+      txSample: describeSample(txSample),
       contractCallCount,
       activityRatio,
       totalFeesSpent: totalFees,
@@ -0,0 +1,41 @@
+// fingerprint.ts - Add a contract to the local fingerprint corpus
+// Usage: npm run fingerprint -- <CONTRACT_ID | path/to/contract.clar> <good|malicious> [display name]
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { stacksApi } from '@agentswarm/agent-kit';
+import { parseClarity } from './services/ClarityParser';
+import { fingerprintContract, functionLists, loadCorpus, saveCorpus } from './services/Fingerprint';
+
+dotenv.config();
+
+async function main() {
+  const [input, label, ...nameParts] = process.argv.slice(2);
+  if (!input || (label !== 'good' && label !== 'malicious')) {
+    console.error('Usage: npm run fingerprint -- <CONTRACT_ID | file.clar> <good|malicious> [name]');
+    process.exit(1);
+  }
+
+  const isFile = input.endsWith('.clar');
+  const source = isFile ? fs.readFileSync(input, 'utf8') : (await stacksApi.getContractSource(input)).source;
+  const ast = parseClarity(source);
+  const id = isFile ? path.basename(input, '.clar') : input;
+
+  const corpus = loadCorpus().filter(entry => entry.id !== id);
+  corpus.push({
+    id,
+    name: nameParts.join(' ') || id,
+    label,
+    contractId: isFile ? null : input,
+    addedAt: new Date().toISOString(),
+    ...fingerprintContract(ast, functionLists(ast))
+  });
+  saveCorpus(corpus);
+
+  console.log(`🧬 Fingerprinted ${id} as ${label} (${corpus.length} entries in corpus)`);
+}
+
+main().catch((error: any) => {
+  console.error('❌ Fingerprinting failed:', error.message);
+  process.exit(1);
+});
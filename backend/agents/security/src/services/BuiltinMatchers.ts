@@ -0,0 +1,206 @@
+import { atomValue, Definition, DefinitionKind, headOf, mentions } from './ClarityParser';
+import { callerGuards, findCallsDeep, flatten, principalLiterals } from './ClarityAnalysis';
+import { CallGraph, CallGraphNode } from './CallGraph';
+import { RuleContext, RuleMatch } from './RuleEngine';
+
+// Functions each token standard's trait requires
+export const TOKEN_STANDARDS = {
+  'SIP-010': ['transfer', 'get-name', 'get-symbol', 'get-decimals', 'get-balance', 'get-total-supply', 'get-token-uri'],
+  'SIP-009': ['get-last-token-id', 'get-token-uri', 'get-owner', 'transfer'],
+  'SIP-013': ['get-balance', 'get-overall-balance', 'get-total-supply', 'get-overall-supply', 'get-decimals', 'get-token-uri', 'transfer', 'transfer-memo']
+};
+
+export type TokenStandard = keyof typeof TOKEN_STANDARDS;
+
+// A token of `standard` missing some of its functions; points at the token definition
+function standardGaps(standard: TokenStandard, tokenKind: DefinitionKind) {
+  return ({ ast, meta }: RuleContext): RuleMatch | null => {
+    if (meta.standard !== standard) return null;
+    const implemented = [...meta.publicFunctions, ...meta.readOnlyFunctions];
+    const missing = TOKEN_STANDARDS[standard].filter(fn => !implemented.includes(fn));
+    if (missing.length === 0) return null;
+    const tokenDef = ast.definitions.find(d => d.kind === tokenKind);
+    return {
+      functions: [],
+      location: tokenDef ? { function: null, line: tokenDef.line } : undefined,
+      vars: { missing: missing.join(', ') }
+    };
+  };
+}
+
+// Dependencies matching `flagged`, each with how the audited contract reaches it
+function flaggedDependencies(graph: CallGraph | null, flagged: (node: CallGraphNode) => boolean): RuleMatch | null {
+  if (!graph) return null;
+  const hits = graph.nodes.filter(n => n.contractId !== graph.root && flagged(n));
+  if (hits.length === 0) return null;
+
+  const edgeTo = (id: string) => graph.edges.find(e => e.to === id && e.from === graph.root) || graph.edges.find(e => e.to === id);
+  const first = edgeTo(hits[0].contractId);
+  const callers = hits
+    .map(n => edgeTo(n.contractId))
+    .filter(e => e?.from === graph.root && e.caller)
+    .map(e => e!.caller as string);
+  return {
+    functions: [...new Set(callers)],
+    location: first && first.from === graph.root ? { function: first.caller, line: first.line } : undefined,
+    vars: {
+      count: hits.length,
+      targets: hits.map(n => {
+        const via = edgeTo(n.contractId);
+        return via && via.from !== graph.root ? `${n.contractId} (via ${via.from})` : n.contractId;
+      }).join(', ')
+    }
+  };
+}
+
+const STATE_WRITES = ['var-set', 'map-set', 'map-insert', 'map-delete', 'ft-mint?', 'ft-burn?', 'ft-transfer?', 'nft-mint?', 'nft-burn?', 'nft-transfer?', 'stx-transfer?', 'stx-burn?'];
+
+// Checks too involved for a declarative matcher; rule files refer to them by name
+export const BUILTIN_MATCHERS: Record<string, (ctx: RuleContext) => RuleMatch | null> = {
+  // A public mint path with neither a native cap nor a supply-limit constant/var in reach
+  'uncapped-mint': ({ ast, fns, publicFns }) => {
+    const ftDef = ast.definitions.find(d => d.kind === 'define-fungible-token');
+    if (!ftDef || ftDef.body.length > 0) return null;
+    const capNames = ast.definitions
+      .filter(d => (d.kind === 'define-constant' || d.kind === 'define-data-var') && /max|cap|limit/i.test(d.name) && /supply|mint/i.test(d.name))
+      .map(d => d.name);
+    const uncapped = publicFns
+      .map(fn => ({ fn, mints: findCallsDeep(fn, fns, ['ft-mint?']) }))
+      .filter(({ fn, mints }) => mints.length > 0 && !capNames.some(c => mentions(fn.body, c) || mints.some(m => mentions(m.in.body, c))));
+    if (uncapped.length === 0) return null;
+    return {
+      functions: uncapped.map(u => u.fn.name),
+      location: { function: uncapped[0].fn.name, line: uncapped[0].mints[0].call.line }
+    };
+  },
+
+  // Public functions only a privileged caller can run
+  'owner-gated': ({ fns, publicFns }) => {
+    const gated = publicFns.map(fn => ({ fn, guards: callerGuards(fn, fns) })).filter(g => g.guards.length > 0);
+    if (gated.length === 0) return null;
+    return {
+      functions: gated.map(g => g.fn.name),
+      location: { function: gated[0].fn.name, line: gated[0].guards[0].line }
+    };
+  },
+
+  // A boolean pause/freeze flag that guards other public functions
+  'pausable': ({ ast, fns, publicFns }) => {
+    const pauseVars = ast.definitions
+      .filter(d => d.kind === 'define-data-var' && atomValue(d.body[0]) === 'bool' && /paus|frozen|freez|halt/i.test(d.name))
+      .map(d => d.name);
+    const paused = publicFns.filter(fn =>
+      findCallsDeep(fn, fns, ['asserts!', 'if']).some(({ call }) => pauseVars.some(v => mentions(call.items[1] || [], v))));
+    if (paused.length === 0) return null;
+    const setter = publicFns.find(fn => findCallsDeep(fn, fns, ['var-set']).some(({ call }) => pauseVars.includes(atomValue(call.items[1]) || '')));
+    return {
+      functions: paused.map(fn => fn.name),
+      location: { function: (setter || paused[0]).name, line: (setter || paused[0]).line },
+      vars: { setter: setter?.name || 'an admin function' }
+    };
+  },
+
+  // State written after an external call in the same public function, with no lock var in sight
+  'state-after-external-call': ({ ast, publicFns }) => {
+    const hits = publicFns
+      .filter(fn => !ast.definitions.some(d => d.kind === 'define-data-var' && /reentr|lock/i.test(d.name) && mentions(fn.body, d.name)))
+      .map(fn => {
+        const ordered = flatten(fn.body);
+        const callIndex = ordered.findIndex(n => headOf(n) === 'contract-call?');
+        const writeAfter = callIndex >= 0 && ordered.slice(callIndex + 1).some(n => STATE_WRITES.includes(headOf(n) || ''));
+        if (!writeAfter) return null;
+        const callee = ordered[callIndex];
+        return { fn, line: callee.line, target: callee.kind === 'list' ? atomValue(callee.items[1]) || '' : '' };
+      })
+      .filter((h): h is { fn: Definition; line: number; target: string } => h !== null);
+    if (hits.length === 0) return null;
+    return {
+      functions: hits.map(h => h.fn.name),
+      location: { function: hits[0].fn.name, line: hits[0].line },
+      vars: { targets: [...new Set(hits.map(h => h.target.replace(/^'/, '')))].join(', ') }
+    };
+  },
+
+  // More than two distinct principals written into the source
+  'hardcoded-principals': ({ ast }) => {
+    const literals = principalLiterals(ast);
+    const unique = [...new Set(literals.map(l => l.principal))];
+    if (unique.length <= 2) return null;
+    return {
+      functions: [],
+      location: { function: null, line: literals[0].line },
+      vars: { count: unique.length }
+    };
+  },
+
+  // Dependencies with no readable source on chain
+  'unverified-dependency': ({ callGraph }) => flaggedDependencies(callGraph, n => n.status === 'unverified'),
+
+  // Dependencies deployed within CALL_GRAPH_RECENT_DAYS
+  'recent-dependency': ({ callGraph }) => flaggedDependencies(callGraph, n => n.status === 'analyzed' && n.recent),
+
+  // contract-call? into a trait argument, i.e. whatever contract the caller passes in
+  'dynamic-trait-call': ({ callGraph }) => {
+    const dynamic = (callGraph?.edges || []).filter(e => e.from === callGraph?.root && e.kind === 'contract-call' && e.to === null);
+    if (dynamic.length === 0) return null;
+    return {
+      functions: [...new Set(dynamic.map(e => e.caller || ''))],
+      location: { function: dynamic[0].caller, line: dynamic[0].line },
+      vars: { targets: [...new Set(dynamic.map(e => `<${(e.trait || '').split('.').pop()}>`))].join(', ') }
+    };
+  },
+
+  // Close to a contract in the fingerprint corpus labelled malicious
+  'malicious-clone': ({ fingerprint }) => {
+    const threshold = Number(process.env.FINGERPRINT_MATCH_THRESHOLD || 0.85);
+    const clones = (fingerprint?.matches || []).filter(m => m.label === 'malicious' && m.similarity >= threshold);
+    if (clones.length === 0) return null;
+    return {
+      functions: [],
+      vars: {
+        count: clones.length,
+        targets: clones.map(m => `${m.name} (${m.exact ? 'exact clone' : `${Math.round(m.similarity * 100)}% similar`})`).join(', ')
+      }
+    };
+  },
+
+  'sip010-gaps': standardGaps('SIP-010', 'define-fungible-token'),
+  'sip009-gaps': standardGaps('SIP-009', 'define-non-fungible-token'),
+  'sip013-gaps': standardGaps('SIP-013', 'define-non-fungible-token'),
+
+  // Public NFT mint paths with no max/cap/limit constant or var in reach
+  'unbounded-nft-ids': ({ ast, fns, publicFns }) => {
+    if (!ast.definitions.some(d => d.kind === 'define-non-fungible-token')) return null;
+    const capNames = ast.definitions
+      .filter(d => (d.kind === 'define-constant' || d.kind === 'define-data-var') && /max|cap|limit/i.test(d.name))
+      .map(d => d.name);
+    const unbounded = publicFns
+      .map(fn => ({ fn, mints: findCallsDeep(fn, fns, ['nft-mint?']) }))
+      .filter(({ fn, mints }) => mints.length > 0 && !capNames.some(c => mentions(fn.body, c) || mints.some(m => mentions(m.in.body, c))));
+    if (unbounded.length === 0) return null;
+    return {
+      functions: unbounded.map(u => u.fn.name),
+      location: { function: unbounded[0].fn.name, line: unbounded[0].mints[0].call.line }
+    };
+  },
+
+  // Public functions that rewrite an NFT's URI var or map after deployment
+  'mutable-token-uri': ({ ast, fns, publicFns }) => {
+    if (!ast.definitions.some(d => d.kind === 'define-non-fungible-token')) return null;
+    const uriStores = ast.definitions
+      .filter(d => (d.kind === 'define-data-var' || d.kind === 'define-map') && /uri|url/i.test(d.name))
+      .map(d => d.name);
+    const setters = publicFns
+      .map(fn => ({
+        fn,
+        writes: findCallsDeep(fn, fns, ['var-set', 'map-set', 'map-insert', 'map-delete'])
+          .filter(({ call }) => uriStores.includes(atomValue(call.items[1]) || ''))
+      }))
+      .filter(s => s.writes.length > 0);
+    if (setters.length === 0) return null;
+    return {
+      functions: setters.map(s => s.fn.name),
+      location: { function: setters[0].fn.name, line: setters[0].writes[0].call.line }
+    };
+  }
+};
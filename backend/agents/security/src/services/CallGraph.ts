@@ -0,0 +1,142 @@
+import { stacksApi } from '@agentswarm/agent-kit';
+import { atomValue, ContractAst, findCalls, isFunction, parseClarity } from './ClarityParser';
+
+export interface CallGraphNode {
+  contractId: string;
+  depth: number;               // hops from the audited contract
+  status: 'analyzed' | 'unverified' | 'skipped'; // unverified: no readable source on chain; skipped: over CALL_GRAPH_MAX_CONTRACTS
+  deployedAt: number | null;   // burn block time of the deploy transaction
+  recent: boolean;             // deployed within CALL_GRAPH_RECENT_DAYS
+  error?: string;
+}
+
+export interface CallGraphEdge {
+  from: string;
+  to: string | null;           // null when the target is a trait argument the caller picks
+  kind: 'contract-call' | 'use-trait';
+  function: string | null;     // function called on the target
+  caller: string | null;       // function in `from` that makes the call
+  line: number;
+  trait?: string;              // trait a dynamic target must implement
+}
+
+export interface CallGraph {
+  root: string;
+  maxDepth: number;
+  nodes: CallGraphNode[];
+  edges: CallGraphEdge[];
+}
+
+export interface CallGraphOptions {
+  maxDepth?: number;      // default CALL_GRAPH_MAX_DEPTH or 2
+  maxContracts?: number;  // default CALL_GRAPH_MAX_CONTRACTS or 25
+  recentDays?: number;    // default CALL_GRAPH_RECENT_DAYS or 30
+}
+
+// 'SP...name or .name (same deployer) to a full contract id; trait references keep their trait segment
+function resolveReference(ref: string, deployer: string): string | null {
+  if (ref.startsWith("'") && ref.includes('.')) return ref.slice(1);
+  if (ref.startsWith('.')) return deployer + ref;
+  return null;
+}
+
+function traitContract(traitRef: string): string {
+  return traitRef.split('.').slice(0, 2).join('.');
+}
+
+/**
+ * The contract-call? and use-trait targets of one contract. A contract-call?
+ * whose target is a trait-typed parameter becomes an edge with `to: null` and
+ * the trait it must implement.
+ */
+export function extractDependencies(contractId: string, ast: ContractAst): CallGraphEdge[] {
+  const deployer = contractId.split('.')[0];
+  const edges: CallGraphEdge[] = [];
+  const traits = new Map<string, string>();
+
+  for (const def of ast.definitions.filter(d => d.kind === 'use-trait')) {
+    const ref = resolveReference(atomValue(def.body[0]) || '', deployer);
+    if (!ref) continue;
+    traits.set(def.name, ref);
+    edges.push({ from: contractId, to: traitContract(ref), kind: 'use-trait', function: null, caller: null, line: def.line, trait: def.name });
+  }
+
+  for (const def of ast.definitions.filter(isFunction)) {
+    const signature = def.node.items[1];
+    for (const call of findCalls(def.body, 'contract-call?')) {
+      const target = atomValue(call.items[1]) || '';
+      const fn = atomValue(call.items[2]);
+      const literal = resolveReference(target, deployer);
+      if (literal) {
+        edges.push({ from: contractId, to: literal, kind: 'contract-call', function: fn, caller: def.name, line: call.line });
+        continue;
+      }
+      // (define-public (swap (token <ft-trait>) ...) (contract-call? token ...))
+      const param = signature?.kind === 'list'
+        ? signature.items.find(p => p.kind === 'list' && atomValue(p.items[0]) === target)
+        : undefined;
+      const type = param?.kind === 'list' ? atomValue(param.items[1]) || '' : '';
+      const alias = type.replace(/^<|>$/g, '');
+      edges.push({
+        from: contractId, to: null, kind: 'contract-call', function: fn, caller: def.name, line: call.line,
+        trait: traits.get(alias) || alias || target
+      });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Walks contract-call? and use-trait targets breadth-first from the audited
+ * contract, fetching each dependency's source and deploy time, down to
+ * `maxDepth` hops. A dependency that cannot be fetched or parsed is kept as
+ * `unverified` rather than failing the audit.
+ */
+export async function buildCallGraph(rootId: string, rootAst: ContractAst, options: CallGraphOptions = {}): Promise<CallGraph> {
+  const maxDepth = options.maxDepth ?? Number(process.env.CALL_GRAPH_MAX_DEPTH || 2);
+  const maxContracts = options.maxContracts ?? Number(process.env.CALL_GRAPH_MAX_CONTRACTS || 25);
+  const recentDays = options.recentDays ?? Number(process.env.CALL_GRAPH_RECENT_DAYS || 30);
+  const cutoff = Date.now() / 1000 - recentDays * 86400;
+
+  const nodes = new Map<string, CallGraphNode>();
+  const edges: CallGraphEdge[] = [];
+
+  const inspect = async (contractId: string, depth: number, knownAst?: ContractAst): Promise<ContractAst | null> => {
+    const node: CallGraphNode = { contractId, depth, status: 'analyzed', deployedAt: null, recent: false };
+    nodes.set(contractId, node);
+    try {
+      const info = await stacksApi.getContractInfo(contractId);
+      const deployTx = await stacksApi.getTransaction(info.tx_id);
+      node.deployedAt = deployTx.burn_block_time || null;
+      node.recent = node.deployedAt !== null && node.deployedAt > cutoff;
+      return knownAst || parseClarity(info.source_code);
+    } catch (error: any) {
+      if (knownAst) return knownAst; // the audited contract's own source was already read
+      node.status = 'unverified';
+      node.error = error.message;
+      return null;
+    }
+  };
+
+  let level: Array<{ contractId: string; ast: ContractAst | null }> = [{ contractId: rootId, ast: await inspect(rootId, 0, rootAst) }];
+
+  for (let depth = 0; depth < maxDepth && level.length > 0; depth++) {
+    const next: string[] = [];
+    for (const { contractId, ast } of level) {
+      if (!ast) continue;
+      for (const edge of extractDependencies(contractId, ast)) {
+        edges.push(edge);
+        if (edge.to && !nodes.has(edge.to) && !next.includes(edge.to)) next.push(edge.to);
+      }
+    }
+
+    const fetchable = next.slice(0, Math.max(0, maxContracts - nodes.size));
+    next.slice(fetchable.length).forEach(contractId =>
+      nodes.set(contractId, { contractId, depth: depth + 1, status: 'skipped', deployedAt: null, recent: false }));
+
+    level = await Promise.all(fetchable.map(async contractId => ({ contractId, ast: await inspect(contractId, depth + 1) })));
+  }
+
+  return { root: rootId, maxDepth, nodes: [...nodes.values()], edges };
+}
@@ -0,0 +1,110 @@
+import { atomValue, ClarityNode, ContractAst, Definition, findCalls, headOf, isFunction, ListNode, mentions, walk } from './ClarityParser';
+
+// The principals a guard can check to decide who is calling
+export const CALLER = ['tx-sender', 'contract-caller'];
+
+// Forms that stop a call when their condition fails
+const GUARDS = ['asserts!', 'if', 'unwrap!'];
+
+export type FunctionIndex = Map<string, Definition>;
+
+export function indexFunctions(ast: ContractAst): FunctionIndex {
+  return new Map(ast.definitions.filter(isFunction).map(d => [d.name, d]));
+}
+
+// User-defined functions called directly inside a node
+export function calledFunctions(node: ClarityNode | ClarityNode[], fns: FunctionIndex): Definition[] {
+  const called = new Map<string, Definition>();
+  walk(node, n => {
+    const name = headOf(n);
+    const fn = name ? fns.get(name) : undefined;
+    if (fn) called.set(fn.name, fn);
+  });
+  return [...called.values()];
+}
+
+/**
+ * Calls to any of `names` in a function or in the helpers it calls, each with
+ * the function the call is actually written in.
+ */
+export function findCallsDeep(def: Definition, fns: FunctionIndex, names: string[], seen = new Set<string>()): Array<{ call: ListNode; in: Definition }> {
+  seen.add(def.name);
+  const found = findCalls(def.body, ...names).map(call => ({ call, in: def }));
+  for (const helper of calledFunctions(def.body, fns)) {
+    if (!seen.has(helper.name)) found.push(...findCallsDeep(helper, fns, names, seen));
+  }
+  return found;
+}
+
+/**
+ * A comparison of the caller with the function's own arguments, e.g.
+ * `(is-eq tx-sender sender)`: it only proves the caller acts for themselves.
+ */
+export function isSelfCheck(node: ClarityNode | undefined, params: string[]): boolean {
+  if (!node || node.kind !== 'list' || headOf(node) !== 'is-eq') return false;
+  const operands = node.items.slice(1).map(atomValue);
+  return operands.some(o => o !== null && CALLER.includes(o))
+    && operands.every(o => o !== null && (CALLER.includes(o) || params.includes(o)));
+}
+
+/**
+ * Whether a guard condition restricts who may call. Self-checks do not count,
+ * and neither does an `or` with a branch anyone can satisfy, such as the
+ * SIP-010 `(or (is-eq tx-sender sender) (is-eq contract-caller sender))`.
+ * An `and` restricts if any part does. Helpers such as `(is-owner)` are followed.
+ */
+function isPrivilegeCheck(condition: ClarityNode | undefined, params: string[], fns: FunctionIndex, seen: Set<string>): boolean {
+  if (!condition) return false;
+  if (isSelfCheck(condition, params)) return false;
+  if (condition.kind === 'list' && (headOf(condition) === 'or' || headOf(condition) === 'and')) {
+    const branches = condition.items.slice(1).map(branch => isPrivilegeCheck(branch, params, fns, new Set(seen)));
+    return headOf(condition) === 'or' ? branches.length > 0 && branches.every(Boolean) : branches.some(Boolean);
+  }
+  if (CALLER.some(c => mentions(condition, c))) return true;
+  return calledFunctions(condition, fns).some(helper => {
+    if (seen.has(helper.name)) return false;
+    seen.add(helper.name);
+    return isPrivilegeCheck(helper.body[helper.body.length - 1], helper.params, fns, seen)
+      || isCallerGated(helper, fns, seen);
+  });
+}
+
+// The guards in a function (or its helpers) that restrict who may call it
+export function callerGuards(def: Definition, fns: FunctionIndex, seen = new Set<string>()): ListNode[] {
+  seen.add(def.name);
+  const guards = findCalls(def.body, ...GUARDS).filter(g => isPrivilegeCheck(g.items[1], def.params, fns, new Set(seen)));
+  for (const helper of calledFunctions(def.body, fns)) {
+    if (!seen.has(helper.name)) guards.push(...callerGuards(helper, fns, seen));
+  }
+  return guards;
+}
+
+export function isCallerGated(def: Definition, fns: FunctionIndex, seen = new Set<string>()): boolean {
+  return callerGuards(def, fns, seen).length > 0;
+}
+
+// Nodes of a function body in evaluation (source) order
+export function flatten(nodes: ClarityNode[]): ClarityNode[] {
+  const ordered: ClarityNode[] = [];
+  walk(nodes, n => ordered.push(n));
+  return ordered;
+}
+
+// Calls lexically inside an (as-contract ...) body, where tx-sender is the contract itself
+export function callsInsideAsContract(def: Definition, fns: FunctionIndex, names: string[]): Array<{ call: ListNode; in: Definition }> {
+  return findCallsDeep(def, fns, ['as-contract'])
+    .flatMap(({ call, in: owner }) => findCalls(call.items.slice(1), ...names).map(inner => ({ call: inner, in: owner })));
+}
+
+// Standard principal literals outside trait declarations ('SP... or 'SP....contract)
+export function principalLiterals(ast: ContractAst): Array<{ principal: string; line: number }> {
+  const literals: Array<{ principal: string; line: number }> = [];
+  ast.forms
+    .filter(form => !['impl-trait', 'use-trait'].includes(headOf(form) || ''))
+    .forEach(form => walk(form, n => {
+      if (n.kind === 'atom' && /^'S[PMTN][0-9A-Z]{28,41}/.test(n.value)) {
+        literals.push({ principal: n.value.slice(1).split('.')[0], line: n.line });
+      }
+    }));
+  return literals;
+}
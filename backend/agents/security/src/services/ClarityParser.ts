@@ -0,0 +1,195 @@
+// Minimal Clarity reader: S-expressions, tuples, strings and comments, with line numbers kept on every node
+
+export interface AtomNode {
+  kind: 'atom';     // identifiers, keywords, uints/ints, principals ('SP...), buffers (0x..)
+  value: string;
+  line: number;
+}
+
+export interface StringNode {
+  kind: 'string';   // "ascii" and u"utf8" literals
+  value: string;
+  line: number;
+}
+
+export interface ListNode {
+  kind: 'list' | 'tuple'; // (...) or {...}; tuple keys are atoms with the trailing colon removed
+  items: ClarityNode[];
+  line: number;
+  endLine: number;
+}
+
+export type ClarityNode = AtomNode | StringNode | ListNode;
+
+export type DefinitionKind =
+  | 'define-public' | 'define-read-only' | 'define-private'
+  | 'define-constant' | 'define-data-var' | 'define-map'
+  | 'define-fungible-token' | 'define-non-fungible-token'
+  | 'define-trait' | 'impl-trait' | 'use-trait';
+
+export interface Definition {
+  kind: DefinitionKind;
+  name: string;           // function/var/map/token name, trait alias, or the implemented trait for impl-trait
+  params: string[];       // function parameter names; empty for everything else
+  body: ClarityNode[];    // what follows the name or signature
+  node: ListNode;         // the whole top-level form
+  line: number;
+  endLine: number;
+}
+
+export interface ContractAst {
+  forms: ClarityNode[];
+  definitions: Definition[];
+}
+
+export class ClarityParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} at line ${line}`);
+    this.name = 'ClarityParseError';
+  }
+}
+
+const DEFINITION_KINDS: DefinitionKind[] = [
+  'define-public', 'define-read-only', 'define-private',
+  'define-constant', 'define-data-var', 'define-map',
+  'define-fungible-token', 'define-non-fungible-token',
+  'define-trait', 'impl-trait', 'use-trait'
+];
+
+const FUNCTION_KINDS: DefinitionKind[] = ['define-public', 'define-read-only', 'define-private'];
+
+type Token =
+  | { type: 'open'; brace: boolean; line: number }
+  | { type: 'close'; brace: boolean; line: number }
+  | { type: 'atom'; value: string; line: number }
+  | { type: 'string'; value: string; line: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\n') { line++; i++; continue; }
+    if (/\s/.test(ch) || ch === ',') { i++; continue; }
+
+    // Comments run from ';' to the end of the line
+    if (ch === ';') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === '{') { tokens.push({ type: 'open', brace: ch === '{', line }); i++; continue; }
+    if (ch === ')' || ch === '}') { tokens.push({ type: 'close', brace: ch === '}', line }); i++; continue; }
+
+    if (ch === '"' || (ch === 'u' && source[i + 1] === '"')) {
+      const startLine = line;
+      i += ch === 'u' ? 2 : 1;
+      let value = '';
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\' && i + 1 < source.length) { value += source[i + 1]; i += 2; continue; }
+        if (source[i] === '\n') line++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw new ClarityParseError('Unterminated string', startLine);
+      i++;
+      tokens.push({ type: 'string', value, line: startLine });
+      continue;
+    }
+
+    let value = '';
+    while (i < source.length && !/[\s(){},;"]/.test(source[i])) value += source[i++];
+    // Tuple keys are written `key:`; keep just the key
+    tokens.push({ type: 'atom', value: value.endsWith(':') && value.length > 1 ? value.slice(0, -1) : value, line });
+  }
+
+  return tokens;
+}
+
+export function parseClarity(source: string): ContractAst {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const readNode = (): ClarityNode => {
+    const token = tokens[pos++];
+    if (token.type === 'close') throw new ClarityParseError(`Unexpected '${token.brace ? '}' : ')'}'`, token.line);
+    if (token.type === 'atom') return { kind: 'atom', value: token.value, line: token.line };
+    if (token.type === 'string') return { kind: 'string', value: token.value, line: token.line };
+
+    const items: ClarityNode[] = [];
+    while (pos < tokens.length && tokens[pos].type !== 'close') items.push(readNode());
+    const close = tokens[pos++];
+    if (!close) throw new ClarityParseError(`Unclosed '${token.brace ? '{' : '('}'`, token.line);
+    return { kind: token.brace ? 'tuple' : 'list', items, line: token.line, endLine: close.line };
+  };
+
+  const forms: ClarityNode[] = [];
+  while (pos < tokens.length) forms.push(readNode());
+
+  return { forms, definitions: forms.map(toDefinition).filter((d): d is Definition => d !== null) };
+}
+
+function toDefinition(form: ClarityNode): Definition | null {
+  if (form.kind !== 'list') return null;
+  const kind = headOf(form) as DefinitionKind | null;
+  if (!kind || !DEFINITION_KINDS.includes(kind)) return null;
+
+  const [, target, ...body] = form.items;
+  let name = '';
+  let params: string[] = [];
+
+  if (FUNCTION_KINDS.includes(kind) && target?.kind === 'list') {
+    // (define-public (name (param type) ...) body)
+    name = atomValue(target.items[0]) || '';
+    params = target.items.slice(1)
+      .map(p => (p.kind === 'list' ? atomValue(p.items[0]) : null))
+      .filter((p): p is string => p !== null);
+  } else {
+    name = atomValue(target) || '';
+  }
+
+  return { kind, name, params, body, node: form, line: form.line, endLine: form.endLine };
+}
+
+export function atomValue(node: ClarityNode | undefined): string | null {
+  return node?.kind === 'atom' ? node.value : null;
+}
+
+// The operator of a list form, e.g. `ft-mint?` for (ft-mint? token u1 recipient)
+export function headOf(node: ClarityNode | undefined): string | null {
+  return node?.kind === 'list' ? atomValue(node.items[0]) : null;
+}
+
+// Depth-first walk over a node and everything inside it
+export function walk(node: ClarityNode | ClarityNode[], visit: (node: ClarityNode) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach(n => walk(n, visit));
+    return;
+  }
+  visit(node);
+  if (node.kind === 'list' || node.kind === 'tuple') node.items.forEach(n => walk(n, visit));
+}
+
+// Every call to one of `names` inside a node, in source order
+export function findCalls(node: ClarityNode | ClarityNode[], ...names: string[]): ListNode[] {
+  const calls: ListNode[] = [];
+  walk(node, n => {
+    if (n.kind === 'list' && names.includes(headOf(n) || '')) calls.push(n);
+  });
+  return calls;
+}
+
+// Whether an atom with this value appears anywhere inside a node
+export function mentions(node: ClarityNode | ClarityNode[], value: string): boolean {
+  let found = false;
+  walk(node, n => {
+    if (n.kind === 'atom' && n.value === value) found = true;
+  });
+  return found;
+}
+
+export function isFunction(def: Definition): boolean {
+  return FUNCTION_KINDS.includes(def.kind);
+}
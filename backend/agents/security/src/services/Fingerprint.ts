@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ClarityNode, ContractAst, findCalls, isFunction } from './ClarityParser';
+
+// Token shingle width and MinHash signature length; changing either invalidates the corpus
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 64;
+
+// Weight of the code shingles against the public/read-only/private function lists
+const CODE_WEIGHT = 0.7;
+
+const DEFAULT_CORPUS_PATH = path.resolve(__dirname, '../../fingerprints/corpus.json');
+
+export interface Fingerprint {
+  hash: string;        // sha256 of the normalised token stream; equal hashes are exact clones
+  tokens: number;
+  minhash: number[];   // MinHash signature of the token shingles, for near-clone similarity
+  functions: string[]; // "public:transfer", "read-only:get-balance", ...
+}
+
+export interface CorpusEntry extends Fingerprint {
+  id: string;
+  name: string;
+  label: 'good' | 'malicious';
+  contractId: string | null;
+  addedAt: string;
+}
+
+export interface FingerprintMatch {
+  id: string;
+  name: string;
+  label: 'good' | 'malicious';
+  contractId: string | null;
+  similarity: number;          // 0..1, weighted code + structure
+  codeSimilarity: number;
+  structureSimilarity: number;
+  exact: boolean;
+}
+
+export interface FingerprintReport {
+  hash: string;
+  tokens: number;
+  corpusSize: number;
+  matches: FingerprintMatch[]; // closest first
+}
+
+// Every name the contract itself introduces: definitions, parameters and let bindings
+function userNames(ast: ContractAst): Set<string> {
+  const names = new Set<string>();
+  for (const def of ast.definitions) {
+    if (def.kind !== 'impl-trait') names.add(def.name);
+    def.params.forEach(p => names.add(p));
+  }
+  for (const letForm of findCalls(ast.forms, 'let')) {
+    const bindings = letForm.items[1];
+    if (bindings?.kind !== 'list') continue;
+    bindings.items.forEach(b => { if (b.kind === 'list' && b.items[0]?.kind === 'atom') names.add(b.items[0].value); });
+  }
+  return names;
+}
+
+/**
+ * The contract as a token stream with everything a clone would change taken
+ * out: its own names become $1, $2... in order of appearance, principals,
+ * numbers, buffers and strings become placeholders. Built-ins and keywords stay.
+ */
+export function normalizeTokens(ast: ContractAst): string[] {
+  const names = userNames(ast);
+  const placeholders = new Map<string, string>();
+  const tokens: string[] = [];
+
+  const emit = (node: ClarityNode) => {
+    if (node.kind === 'string') {
+      tokens.push('STR');
+    } else if (node.kind === 'atom') {
+      tokens.push(normalizeAtom(node.value));
+    } else {
+      tokens.push(node.kind === 'list' ? '(' : '{');
+      node.items.forEach(emit);
+      tokens.push(node.kind === 'list' ? ')' : '}');
+    }
+  };
+
+  const normalizeAtom = (value: string): string => {
+    if (/^'S[PMTN][0-9A-Z]+/.test(value) || value.startsWith('.')) return 'PRINCIPAL';
+    if (/^-?u?\d+$/.test(value)) return 'NUM';
+    if (/^0x[0-9a-f]*$/i.test(value)) return 'BUFF';
+    const name = value.replace(/^<|>$/g, '');
+    if (!names.has(name)) return value;
+    if (!placeholders.has(name)) placeholders.set(name, `$${placeholders.size + 1}`);
+    return placeholders.get(name)!;
+  };
+
+  ast.forms.forEach(emit);
+  return tokens;
+}
+
+// 32-bit FNV-1a, salted so each signature slot acts as an independent hash
+function fnv1a(text: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function minhash(tokens: string[]): number[] {
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= Math.max(tokens.length, SHINGLE_SIZE); i++) {
+    shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let slot = 0; slot < SIGNATURE_SIZE; slot++) {
+      const h = fnv1a(shingle, slot * 0x9e3779b1);
+      if (h < signature[slot]) signature[slot] = h;
+    }
+  }
+  return signature;
+}
+
+export function fingerprintContract(ast: ContractAst, meta: { publicFunctions: string[]; readOnlyFunctions: string[]; privateFunctions: string[] }): Fingerprint {
+  const tokens = normalizeTokens(ast);
+  return {
+    hash: crypto.createHash('sha256').update(tokens.join(' ')).digest('hex'),
+    tokens: tokens.length,
+    minhash: minhash(tokens),
+    functions: [
+      ...meta.publicFunctions.map(f => `public:${f}`),
+      ...meta.readOnlyFunctions.map(f => `read-only:${f}`),
+      ...meta.privateFunctions.map(f => `private:${f}`)
+    ]
+  };
+}
+
+// The function lists of a contract straight from its AST, for callers without contract metadata
+export function functionLists(ast: ContractAst): { publicFunctions: string[]; readOnlyFunctions: string[]; privateFunctions: string[] } {
+  const fns = ast.definitions.filter(isFunction);
+  return {
+    publicFunctions: fns.filter(d => d.kind === 'define-public').map(d => d.name),
+    readOnlyFunctions: fns.filter(d => d.kind === 'define-read-only').map(d => d.name),
+    privateFunctions: fns.filter(d => d.kind === 'define-private').map(d => d.name)
+  };
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const union = new Set([...setA, ...setB]).size;
+  if (union === 0) return 1;
+  return [...setA].filter(x => setB.has(x)).length / union;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export function compareFingerprints(fp: Fingerprint, entry: CorpusEntry): FingerprintMatch {
+  const exact = fp.hash === entry.hash;
+  const agreeing = fp.minhash.filter((h, slot) => h === entry.minhash[slot]).length;
+  const codeSimilarity = exact ? 1 : agreeing / SIGNATURE_SIZE;
+  const structureSimilarity = jaccard(fp.functions, entry.functions);
+  return {
+    id: entry.id,
+    name: entry.name,
+    label: entry.label,
+    contractId: entry.contractId,
+    similarity: exact ? 1 : round(CODE_WEIGHT * codeSimilarity + (1 - CODE_WEIGHT) * structureSimilarity),
+    codeSimilarity: round(codeSimilarity),
+    structureSimilarity: round(structureSimilarity),
+    exact
+  };
+}
+
+export function loadCorpus(corpusPath: string = process.env.FINGERPRINT_CORPUS_PATH || DEFAULT_CORPUS_PATH): CorpusEntry[] {
+  if (!fs.existsSync(corpusPath)) return [];
+  return JSON.parse(fs.readFileSync(corpusPath, 'utf8'));
+}
+
+export function saveCorpus(corpus: CorpusEntry[], corpusPath: string = process.env.FINGERPRINT_CORPUS_PATH || DEFAULT_CORPUS_PATH): void {
+  // One line per signature keeps the file reviewable
+  const json = JSON.stringify(corpus, null, 2).replace(/\[\s+([\d,\s]+?)\s+\]/g, (_, nums: string) => `[${nums.split(/,\s*/).join(', ')}]`);
+  fs.writeFileSync(corpusPath, json + '\n');
+}
+
+export function matchCorpus(fp: Fingerprint, corpus: CorpusEntry[], limit = 3): FingerprintReport {
+  return {
+    hash: fp.hash,
+    tokens: fp.tokens,
+    corpusSize: corpus.length,
+    matches: corpus
+      .map(entry => compareFingerprints(fp, entry))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+  };
+}
@@ -0,0 +1,110 @@
+import { atomValue, ClarityNode, ContractAst, Definition, findCalls, headOf, ListNode } from './ClarityParser';
+import { CALLER, callerGuards, calledFunctions, callsInsideAsContract, findCallsDeep, FunctionIndex, isSelfCheck } from './ClarityAnalysis';
+
+export type AccessLevel = 'permissionless' | 'owner-gated' | 'allow-list';
+
+export type Capability = 'mint' | 'burn' | 'transfer-on-behalf' | 'change-owner' | 'as-contract-stx';
+
+export interface FunctionPrivilege {
+  name: string;
+  line: number;
+  access: AccessLevel;
+  guards: string[];            // what the caller is checked against: `contract-owner`, `(var-get admin)`, `map admins`
+  capabilities: Capability[];
+}
+
+// A guard condition plus the bodies of any helpers it calls, e.g. (is-owner)
+function expandCondition(condition: ClarityNode, fns: FunctionIndex, seen = new Set<string>()): ClarityNode[] {
+  const nodes = [condition];
+  for (const helper of calledFunctions(condition, fns)) {
+    if (seen.has(helper.name)) continue;
+    seen.add(helper.name);
+    helper.body.forEach(n => nodes.push(...expandCondition(n, fns, seen)));
+  }
+  return nodes;
+}
+
+// Source-like text for a node, to name a guard in the report
+function render(node: ClarityNode | undefined): string {
+  if (!node) return '';
+  if (node.kind === 'atom') return node.value;
+  if (node.kind === 'string') return `"${node.value}"`;
+  return node.kind === 'list' ? `(${node.items.map(render).join(' ')})` : '{...}';
+}
+
+// What a caller guard compares tx-sender against, and whether that is a map lookup; self-checks name nobody
+function describeGuard(guard: ListNode, fns: FunctionIndex, params: string[]): Array<{ label: string; allowList: boolean }> {
+  const nodes = expandCondition(guard.items[1], fns);
+  const lookups = findCalls(nodes, 'map-get?')
+    .filter(call => call.items.slice(2).some(key => CALLER.some(c => render(key).includes(c))))
+    .map(call => ({ label: `map ${atomValue(call.items[1])}`, allowList: true }));
+  const comparisons = findCalls(nodes, 'is-eq')
+    .filter(call => !isSelfCheck(call, params))
+    .map(call => call.items.slice(1))
+    .filter(operands => operands.some(o => CALLER.includes(atomValue(o) || '')))
+    .map(operands => ({ label: render(operands.find(o => !CALLER.includes(atomValue(o) || ''))), allowList: false }))
+    .filter(g => g.label);
+  // Some other check on the caller, e.g. (is-some (index-of admins tx-sender))
+  if (lookups.length === 0 && comparisons.length === 0) return [{ label: render(guard.items[1]), allowList: false }];
+  return [...lookups, ...comparisons];
+}
+
+// The sender of a token/STX transfer: (ft-transfer? t amount sender recipient), (stx-transfer? amount sender recipient)
+function transferSender(call: ListNode): ClarityNode | undefined {
+  return headOf(call) === 'stx-transfer?' ? call.items[2] : call.items[3];
+}
+
+// Whether a transfer can move someone else's balance: the sender is neither the caller nor checked against it
+function movesOthersFunds(call: ListNode, scopes: Definition[], asContract: ListNode[]): boolean {
+  if (asContract.includes(call)) return false;
+  const sender = transferSender(call);
+  const name = atomValue(sender);
+  if (!name || CALLER.includes(name)) return false;
+  return !findCalls(scopes.flatMap(d => d.body), 'is-eq').some(eq => {
+    const operands = eq.items.slice(1).map(atomValue);
+    return operands.includes(name) && operands.some(o => CALLER.includes(o || ''));
+  });
+}
+
+function capabilitiesOf(fn: Definition, ast: ContractAst, fns: FunctionIndex): Capability[] {
+  const capabilities: Capability[] = [];
+  if (findCallsDeep(fn, fns, ['ft-mint?', 'nft-mint?']).length > 0) capabilities.push('mint');
+  if (findCallsDeep(fn, fns, ['ft-burn?', 'nft-burn?']).length > 0) capabilities.push('burn');
+
+  const asContract = callsInsideAsContract(fn, fns, ['ft-transfer?', 'nft-transfer?', 'stx-transfer?']).map(c => c.call);
+  const transfers = findCallsDeep(fn, fns, ['ft-transfer?', 'nft-transfer?', 'stx-transfer?']);
+  if (transfers.some(t => movesOthersFunds(t.call, [fn, t.in], asContract))) capabilities.push('transfer-on-behalf');
+
+  const ownerVars = ast.definitions
+    .filter(d => d.kind === 'define-data-var' && /owner|admin|governance|authority/i.test(d.name))
+    .map(d => d.name);
+  if (findCallsDeep(fn, fns, ['var-set']).some(({ call }) => ownerVars.includes(atomValue(call.items[1]) || ''))) {
+    capabilities.push('change-owner');
+  }
+
+  if (callsInsideAsContract(fn, fns, ['stx-transfer?']).length > 0) capabilities.push('as-contract-stx');
+  return capabilities;
+}
+
+/**
+ * Who may call each public function and what it can do. Owner-gated means the
+ * caller is compared with a fixed principal or an owner var; allow-list means
+ * the caller is looked up in a map.
+ */
+export function buildPrivilegeMap(ast: ContractAst, fns: FunctionIndex): FunctionPrivilege[] {
+  return ast.definitions
+    .filter(d => d.kind === 'define-public')
+    .map(fn => {
+      const guards = callerGuards(fn, fns).flatMap(g => describeGuard(g, fns, fn.params));
+      const access: AccessLevel = guards.some(g => g.allowList) ? 'allow-list'
+        : guards.length > 0 ? 'owner-gated'
+        : 'permissionless';
+      return {
+        name: fn.name,
+        line: fn.line,
+        access,
+        guards: [...new Set(guards.map(g => g.label))],
+        capabilities: capabilitiesOf(fn, ast, fns)
+      };
+    });
+}
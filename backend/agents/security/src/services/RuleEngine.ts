@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import { ContractAst, Definition, DefinitionKind, findCalls, isFunction } from './ClarityParser';
+import { callsInsideAsContract, findCallsDeep, FunctionIndex, indexFunctions, isCallerGated } from './ClarityAnalysis';
+import { BUILTIN_MATCHERS } from './BuiltinMatchers';
+import { CallGraph } from './CallGraph';
+import { FingerprintReport } from './Fingerprint';
+import { ContractMeta } from './SecurityAnalyzer';
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+// Points a finding takes off the 100-point score unless its rule sets `deduction`
+const DEFAULT_DEDUCTIONS: Record<Severity, number> = { critical: 25, high: 15, medium: 8, low: 3, info: 0 };
+
+// Rules shipped with the agent; SECURITY_RULES_DIR adds house rules on top
+const BUILTIN_RULES_DIR = path.resolve(__dirname, '../../rules');
+
+export type RuleMatcher =
+  // Public (or `scope`) functions that call one of `calls`, optionally only inside as-contract or only when no caller check guards them
+  | { type: 'call'; calls: string[]; scope?: DefinitionKind[]; followHelpers?: boolean; insideAsContract?: boolean; unlessCallerGated?: boolean; requires?: DefinitionKind[] }
+  // None of `calls` appears anywhere in the contract
+  | { type: 'absent-call'; calls: string[]; requires?: DefinitionKind[] }
+  // The number of `kind` definitions (optionally with names matching `name`) is above/below a bound
+  | { type: 'definitions'; kind: DefinitionKind; name?: string; above?: number; below?: number; requires?: DefinitionKind[] }
+  // A check implemented in BuiltinMatchers.ts
+  | { type: 'builtin'; name: string; requires?: DefinitionKind[] };
+
+export interface SecurityRule {
+  id: string;
+  severity: Severity;
+  title: string;
+  matcher: RuleMatcher;
+  message: string;         // {contract}, {functions}, {count} and any builtin vars are filled in
+  recommendation: string;
+  deduction?: number;
+  enabled?: boolean;
+}
+
+export interface RuleContext {
+  ast: ContractAst;
+  fns: FunctionIndex;
+  publicFns: Definition[];
+  meta: ContractMeta;
+  callGraph: CallGraph | null;
+  fingerprint: FingerprintReport | null;
+}
+
+// What the analyzer gathered beyond the contract's own AST
+export interface RuleEvidence {
+  callGraph?: CallGraph | null;
+  fingerprint?: FingerprintReport | null;
+}
+
+export interface RuleMatch {
+  functions: string[];
+  location?: { function: string | null; line: number };
+  vars?: Record<string, string | number>;
+}
+
+export interface VulnerabilityInfo {
+  id: string;
+  severity: Severity;
+  title: string;
+  description: string;
+  recommendation: string;
+  deduction: number;
+  location?: { function: string | null; line: number }; // where the finding points in the source
+}
+
+export interface RuleSet {
+  active: SecurityRule[];
+  disabled: string[];
+}
+
+const SEVERITIES = Object.keys(DEFAULT_DEDUCTIONS);
+const MATCHER_TYPES = ['call', 'absent-call', 'definitions', 'builtin'];
+
+function validateRule(rule: any, file: string): SecurityRule {
+  const fail = (reason: string) => { throw new Error(`Invalid security rule ${rule?.id || '(no id)'} in ${file}: ${reason}`); };
+  if (!rule || typeof rule.id !== 'string' || !rule.id) fail('missing id');
+  if (!SEVERITIES.includes(rule.severity)) fail(`severity must be one of ${SEVERITIES.join(', ')}`);
+  for (const field of ['title', 'message', 'recommendation']) {
+    if (typeof rule[field] !== 'string') fail(`missing ${field}`);
+  }
+  if (!rule.matcher || !MATCHER_TYPES.includes(rule.matcher.type)) fail(`matcher.type must be one of ${MATCHER_TYPES.join(', ')}`);
+  if ((rule.matcher.type === 'call' || rule.matcher.type === 'absent-call') && !Array.isArray(rule.matcher.calls)) fail('matcher.calls must be a list');
+  if (rule.matcher.type === 'definitions' && !rule.matcher.kind) fail('matcher.kind is required');
+  if (rule.matcher.type === 'builtin' && !BUILTIN_MATCHERS[rule.matcher.name]) fail(`unknown builtin matcher "${rule.matcher.name}"`);
+  if (rule.deduction !== undefined && typeof rule.deduction !== 'number') fail('deduction must be a number');
+  return rule;
+}
+
+function readRulesDir(dir: string): SecurityRule[] {
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .flatMap(file => {
+      const parsed = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+      return (Array.isArray(parsed) ? parsed : [parsed]).map(rule => validateRule(rule, file));
+    });
+}
+
+/**
+ * Built-in rules plus those in SECURITY_RULES_DIR, where a rule with an existing
+ * id replaces it. Rules with `enabled: false` or listed in SECURITY_RULES_DISABLED
+ * are left out of the audit, its check count and its score.
+ */
+export function loadRules(
+  dirs: string[] = [BUILTIN_RULES_DIR, process.env.SECURITY_RULES_DIR || ''].filter(Boolean),
+  disabledIds: string[] = (process.env.SECURITY_RULES_DISABLED || '').split(',').map(s => s.trim()).filter(Boolean)
+): RuleSet {
+  const byId = new Map<string, SecurityRule>();
+  for (const dir of dirs) {
+    if (!fs.existsSync(dir)) throw new Error(`Security rules directory not found: ${dir}`);
+    readRulesDir(dir).forEach(rule => byId.set(rule.id, rule));
+  }
+
+  const rules = [...byId.values()];
+  const isActive = (rule: SecurityRule) => rule.enabled !== false && !disabledIds.includes(rule.id);
+  return {
+    active: rules.filter(isActive),
+    disabled: rules.filter(rule => !isActive(rule)).map(rule => rule.id)
+  };
+}
+
+function matchCall(m: Extract<RuleMatcher, { type: 'call' }>, ctx: RuleContext): RuleMatch | null {
+  const scope = m.scope || ['define-public'];
+  const hits = ctx.ast.definitions
+    .filter(d => scope.includes(d.kind) && isFunction(d))
+    .map(fn => ({
+      fn,
+      calls: m.insideAsContract ? callsInsideAsContract(fn, ctx.fns, m.calls)
+        : m.followHelpers === false ? findCalls(fn.body, ...m.calls).map(call => ({ call, in: fn }))
+        : findCallsDeep(fn, ctx.fns, m.calls)
+    }))
+    .filter(({ fn, calls }) => calls.length > 0 && !(m.unlessCallerGated && isCallerGated(fn, ctx.fns)));
+
+  if (hits.length === 0) return null;
+  return {
+    functions: hits.map(h => h.fn.name),
+    location: { function: hits[0].fn.name, line: hits[0].calls[0].call.line },
+    vars: { count: hits.length }
+  };
+}
+
+function matchAbsentCall(m: Extract<RuleMatcher, { type: 'absent-call' }>, ctx: RuleContext): RuleMatch | null {
+  if (findCalls(ctx.ast.forms, ...m.calls).length > 0) return null;
+  return { functions: [], location: requiredLocation(m.requires, ctx) };
+}
+
+function matchDefinitions(m: Extract<RuleMatcher, { type: 'definitions' }>, ctx: RuleContext): RuleMatch | null {
+  const pattern = m.name ? new RegExp(m.name, 'i') : null;
+  const defs = ctx.ast.definitions.filter(d => d.kind === m.kind && (!pattern || pattern.test(d.name)));
+  const hit = (m.above !== undefined && defs.length > m.above) || (m.below !== undefined && defs.length < m.below);
+  if (!hit) return null;
+  return {
+    functions: defs.filter(isFunction).map(d => d.name),
+    location: defs.length > 0 ? { function: null, line: defs[0].line } : requiredLocation(m.requires, ctx),
+    vars: { count: defs.length }
+  };
+}
+
+// Findings about something missing point at the definition that made the rule apply
+function requiredLocation(requires: DefinitionKind[] | undefined, ctx: RuleContext): RuleMatch['location'] {
+  const def = ctx.ast.definitions.find(d => requires?.includes(d.kind));
+  return def ? { function: null, line: def.line } : undefined;
+}
+
+function matchRule(matcher: RuleMatcher, ctx: RuleContext): RuleMatch | null {
+  if (matcher.requires && !matcher.requires.every(kind => ctx.ast.definitions.some(d => d.kind === kind))) return null;
+  switch (matcher.type) {
+    case 'call': return matchCall(matcher, ctx);
+    case 'absent-call': return matchAbsentCall(matcher, ctx);
+    case 'definitions': return matchDefinitions(matcher, ctx);
+    case 'builtin': return BUILTIN_MATCHERS[matcher.name](ctx);
+  }
+}
+
+function render(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key) => (key in vars ? String(vars[key]) : placeholder));
+}
+
+export function runRules(rules: SecurityRule[], ast: ContractAst, meta: ContractMeta, evidence: RuleEvidence = {}): VulnerabilityInfo[] {
+  const ctx: RuleContext = {
+    ast,
+    fns: indexFunctions(ast),
+    publicFns: ast.definitions.filter(d => d.kind === 'define-public'),
+    meta,
+    callGraph: evidence.callGraph || null,
+    fingerprint: evidence.fingerprint || null
+  };
+
+  const vulns: VulnerabilityInfo[] = [];
+  for (const rule of rules) {
+    const match = matchRule(rule.matcher, ctx);
+    if (!match) continue;
+    vulns.push({
+      id: rule.id,
+      severity: rule.severity,
+      title: rule.title,
+      description: render(rule.message, { contract: meta.name, functions: match.functions.join(', '), count: match.functions.length, ...match.vars }),
+      recommendation: rule.recommendation,
+      deduction: rule.deduction ?? DEFAULT_DEDUCTIONS[rule.severity],
+      location: match.location
+    });
+  }
+  return vulns;
+}
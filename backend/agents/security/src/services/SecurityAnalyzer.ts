@@ -1,33 +1,112 @@
-import axios from 'axios';
-
-interface SecurityResult {
-  score: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  issues: string[];
-  summary: string;
-  details: Record<string, any>;
-  scanTime: number;
+import { AnalysisResult, Analyzer, CanonicalTarget, stacksApi } from '@agentswarm/agent-kit';
+import { ContractAst, DefinitionKind, parseClarity } from './ClarityParser';
+import { indexFunctions } from './ClarityAnalysis';
+import { loadRules, RuleSet, runRules, VulnerabilityInfo } from './RuleEngine';
+import { TOKEN_STANDARDS, TokenStandard } from './BuiltinMatchers';
+import { buildCallGraph, CallGraph } from './CallGraph';
+import { buildPrivilegeMap, FunctionPrivilege } from './PrivilegeMap';
+import { CorpusEntry, fingerprintContract, FingerprintReport, loadCorpus, matchCorpus } from './Fingerprint';
+
+const TOKEN_TYPES: Record<TokenStandard, string> = {
+  'SIP-010': 'Fungible Token (SIP-010)',
+  'SIP-009': 'NFT (SIP-009)',
+  'SIP-013': 'Semi-Fungible Token (SIP-013)'
+};
+
+export interface ContractMeta {
+  name: string;
+  principal: string;
+  publicFunctions: string[];
+  readOnlyFunctions: string[];
+  privateFunctions: string[];
+  dataVars: string[];
+  maps: string[];
+  constants: string[];
+  traits: string[];            // implemented traits, without the leading quote
+  sourceLines: number;
+  sourceBytes: number;
+  sip010Compliance: number;    // share of the standard's required functions implemented, 0-1
+  sip010Functions: string[];
+  sip009Compliance: number;
+  sip009Functions: string[];
+  sip013Compliance: number;
+  sip013Functions: string[];
+  standard: TokenStandard | null;
+  tokenType: string | null;
 }
 
-interface VulnerabilityInfo {
-  id: string;
-  severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
-  title: string;
-  description: string;
-  recommendation: string;
+/** Names, size and token standard of a contract, as the rules and the report see it. */
+export function describeContract(ast: ContractAst, source: string, address: string): ContractMeta {
+  const parts = address.split('.');
+  const principal = parts[0];
+  const name = parts.slice(1).join('.') || 'unknown';
+
+  const named = (kind: DefinitionKind): string[] => ast.definitions.filter(d => d.kind === kind).map(d => d.name);
+
+  const publicFunctions = named('define-public');
+  const readOnlyFunctions = named('define-read-only');
+  const privateFunctions = named('define-private');
+  const dataVars = named('define-data-var');
+  const maps = named('define-map');
+  const constants = named('define-constant');
+  const traits = named('impl-trait').map(t => t.replace(/^'/, ''));
+
+  const allFns = [...publicFunctions, ...readOnlyFunctions];
+  const implemented = (standard: TokenStandard) => TOKEN_STANDARDS[standard].filter(fn => allFns.includes(fn));
+  const sip010Functions = implemented('SIP-010');
+  const sip009Functions = implemented('SIP-009');
+  const sip013Functions = implemented('SIP-013');
+
+  // SIP-013 tokens pair an FT (balances) with an NFT (token ids)
+  const hasFt = named('define-fungible-token').length > 0;
+  const hasNft = named('define-non-fungible-token').length > 0;
+  let standard: TokenStandard | null = null;
+  if (traits.some(t => /sip-?013/.test(t)) || (hasFt && hasNft && allFns.includes('get-overall-balance'))) standard = 'SIP-013';
+  else if (hasFt) standard = 'SIP-010';
+  else if (hasNft) standard = 'SIP-009';
+  else if (traits.some(t => /sip-?010/.test(t))) standard = 'SIP-010';
+  else if (traits.some(t => /sip-?009|nft-trait/.test(t))) standard = 'SIP-009';
+
+  const tokenType = standard ? TOKEN_TYPES[standard] : null;
+
+  return {
+    name, principal, publicFunctions, readOnlyFunctions, privateFunctions,
+    dataVars, maps, constants, traits,
+    sourceLines: source.split('\n').length,
+    sourceBytes: source.length,
+    sip010Compliance: sip010Functions.length / TOKEN_STANDARDS['SIP-010'].length,
+    sip010Functions,
+    sip009Compliance: sip009Functions.length / TOKEN_STANDARDS['SIP-009'].length,
+    sip009Functions,
+    sip013Compliance: sip013Functions.length / TOKEN_STANDARDS['SIP-013'].length,
+    sip013Functions,
+    standard, tokenType
+  };
 }
 
-export class SecurityAnalyzer {
-  private readonly STACKS_API = process.env.STACKS_API_URL || 'https://api.hiro.so';
+export class SecurityAnalyzer implements Analyzer {
+  constructor(
+    private readonly rules: RuleSet = loadRules(),
+    private readonly corpus: CorpusEntry[] = loadCorpus()
+  ) {
+    console.log(`🧩 Loaded ${rules.active.length} security rules${rules.disabled.length ? ` (disabled: ${rules.disabled.join(', ')})` : ''} and ${corpus.length} known-contract fingerprints`);
+  }
 
-  async analyze(contractAddress: string): Promise<SecurityResult> {
+  async analyze(target: CanonicalTarget): Promise<AnalysisResult> {
     const startTime = Date.now();
     
     try {
-      const resolvedAddress = await this.resolveAddress(contractAddress);
+      if (target.kind !== 'unresolved' && !target.contractId) {
+        throw new Error(`${target.input} has no associated smart contract for security analysis`);
+      }
+      const resolvedAddress = target.contractId || target.input;
       const source = await this.fetchContractSource(resolvedAddress);
-      const contractMeta = this.parseContractSource(source, resolvedAddress);
-      const vulnerabilities = this.runSecurityAudit(source, contractMeta);
+      const ast = parseClarity(source);
+      const contractMeta = describeContract(ast, source, resolvedAddress);
+      const callGraph = await buildCallGraph(resolvedAddress, ast);
+      const fingerprint = matchCorpus(fingerprintContract(ast, contractMeta), this.corpus);
+      const privilegeMap = buildPrivilegeMap(ast, indexFunctions(ast));
+      const vulnerabilities = runRules(this.rules.active, ast, contractMeta, { callGraph, fingerprint });
       const score = this.calculateScore(vulnerabilities);
       const riskLevel = this.determineRiskLevel(score, vulnerabilities);
       const scanTime = Date.now() - startTime;
@@ -37,8 +116,8 @@ export class SecurityAnalyzer {
       return {
         score,
         riskLevel,
-        issues: vulnerabilities.map(v => `[${v.severity.toUpperCase()}] ${v.description}`),
-        summary: this.generateDetailedSummary(score, riskLevel, vulnerabilities, contractMeta),
+        issues: vulnerabilities.map(v => `[${v.severity.toUpperCase()}] ${v.description}${this.formatLocation(v)}`),
+        summary: this.generateDetailedSummary(score, riskLevel, vulnerabilities, contractMeta, callGraph, fingerprint, privilegeMap),
         details: {
           contractMeta: {
             name: contractMeta.name,
@@ -53,261 +132,68 @@ export class SecurityAnalyzer {
             maps: contractMeta.maps,
             constants: contractMeta.constants,
             traits: contractMeta.traits,
+            standard: contractMeta.standard,
             sip010Compliance: Math.round(contractMeta.sip010Compliance * 100),
             sip010Functions: contractMeta.sip010Functions,
+            sip009Compliance: Math.round(contractMeta.sip009Compliance * 100),
+            sip009Functions: contractMeta.sip009Functions,
+            sip013Compliance: Math.round(contractMeta.sip013Compliance * 100),
+            sip013Functions: contractMeta.sip013Functions,
           },
           vulnerabilities: vulnerabilities.map(v => ({
             id: v.id,
             severity: v.severity,
             title: v.title,
             description: v.description,
-            recommendation: v.recommendation
+            recommendation: v.recommendation,
+            deduction: v.deduction,
+            location: v.location
           })),
           auditSummary: {
-            totalChecks: 12,
-            passed: 12 - vulnerabilities.length,
+            totalChecks: this.rules.active.length,
+            passed: this.rules.active.length - vulnerabilities.length,
             failed: vulnerabilities.length,
             critical: vulnerabilities.filter(v => v.severity === 'critical').length,
             high: vulnerabilities.filter(v => v.severity === 'high').length,
             medium: vulnerabilities.filter(v => v.severity === 'medium').length,
             low: vulnerabilities.filter(v => v.severity === 'low').length,
+            disabledRules: this.rules.disabled
           },
+          privilegeMap,
+          callGraph,
+          fingerprint,
           contractAddress: resolvedAddress,
-          resolvedFrom: contractAddress !== resolvedAddress ? contractAddress : undefined
+          resolvedFrom: target.input !== resolvedAddress ? target.input : undefined
         },
+        // Findings come from the deployed source itself; only a stub contract leaves much unseen
+        confidence: contractMeta.sourceLines >= 10 ? 0.95 : 0.6,
         scanTime
       };
 
     } catch (error: any) {
       console.error('❌ Security analysis failed:', error.message);
-      throw new Error(`Security analysis failed for ${contractAddress}: ${error.message}`);
+      throw new Error(`Security analysis failed for ${target.input}: ${error.message}`);
     }
   }
 
-  private async resolveAddress(address: string): Promise<string> {
-    const headers: Record<string, string> = {};
-    if (process.env.HIRO_API_KEY) headers['x-hiro-api-key'] = process.env.HIRO_API_KEY;
-
-    // If it's a tx hash (0x...), look up the transaction to find the contract
-    if (address.startsWith('0x') && address.length === 66) {
-      console.log(`🔍 Resolving tx hash to contract: ${address}`);
-      const txRes = await axios.get(`${this.STACKS_API}/extended/v1/tx/${address}`, { timeout: 10000, headers });
-      const contractId = txRes.data?.smart_contract?.contract_id;
-      if (contractId) {
-        console.log(`✅ Resolved to contract: ${contractId}`);
-        return contractId;
-      }
-      const calledContract = txRes.data?.contract_call?.contract_id;
-      if (calledContract) {
-        console.log(`✅ Resolved to called contract: ${calledContract}`);
-        return calledContract;
-      }
-      throw new Error(`Transaction ${address} has no associated smart contract for security analysis`);
-    }
-    return address;
-  }
-
   private async fetchContractSource(address: string): Promise<string> {
     // Parse "PRINCIPAL.contract-name" format
     const parts = address.split('.');
     if (parts.length < 2) {
       throw new Error('Invalid contract address format. Expected: PRINCIPAL.contract-name');
     }
-    const principal = parts[0];
-    const contractName = parts.slice(1).join('.');
-
-    const response = await axios.get(
-      `${this.STACKS_API}/v2/contracts/source/${principal}/${contractName}`,
-      { 
-        timeout: 10000,
-        headers: process.env.HIRO_API_KEY 
-          ? { 'x-hiro-api-key': process.env.HIRO_API_KEY }
-          : {}
-      }
-    );
-    return response.data.source;
-  }
-
-  private runSecurityAudit(source: string, meta: any): VulnerabilityInfo[] {
-    const vulns: VulnerabilityInfo[] = [];
-
-    // 1. Unlimited minting
-    if (!source.includes('max-supply') && !source.includes('mint-limit') && !source.includes('MAX-SUPPLY')) {
-      vulns.push({
-        id: 'SEC-001', severity: 'high',
-        title: 'No Supply Cap',
-        description: `No maximum supply cap detected in ${meta.name} - unlimited minting possible`,
-        recommendation: 'Add a max-supply constant and enforce it in mint functions'
-      });
-    }
-
-    // 2. Centralized ownership
-    if ((source.includes('contract-owner') || source.includes('is-owner')) && source.includes('asserts!')) {
-      vulns.push({
-        id: 'SEC-002', severity: 'medium',
-        title: 'Centralized Admin Control',
-        description: `${meta.name} has owner-gated functions controlled by a single address`,
-        recommendation: 'Consider multi-sig or DAO governance for admin functions'
-      });
-    }
-
-    // 3. Pausable
-    if (source.includes('is-paused') || source.includes('pause') || source.includes('frozen')) {
-      vulns.push({
-        id: 'SEC-003', severity: 'medium',
-        title: 'Pausable Contract',
-        description: `${meta.name} has pause/freeze functionality - all operations can be halted by admin`,
-        recommendation: 'Ensure pause mechanism has timelock or multi-sig requirement'
-      });
-    }
-
-    // 4. Reentrancy risk
-    if (!source.includes('reentrancy-guard') && source.includes('contract-call?')) {
-      vulns.push({
-        id: 'SEC-004', severity: 'critical',
-        title: 'Potential Reentrancy',
-        description: `${meta.name} makes external contract calls without reentrancy guards`,
-        recommendation: 'Add reentrancy guards before external contract calls'
-      });
-    }
-
-    // 5. Unguarded STX transfers
-    if (source.includes('stx-transfer?') && !source.includes('begin')) {
-      vulns.push({
-        id: 'SEC-005', severity: 'high',
-        title: 'Unguarded STX Transfers',
-        description: `${meta.name} contains STX transfer operations without proper sequencing`,
-        recommendation: 'Wrap STX transfers in begin blocks with proper validation'
-      });
-    }
-
-    // 6. Missing burn function
-    const hasBurn = source.includes('burn') || source.includes('ft-burn?');
-    if (meta.tokenType?.includes('Fungible') && !hasBurn) {
-      vulns.push({
-        id: 'SEC-006', severity: 'low',
-        title: 'No Burn Mechanism',
-        description: `${meta.name} fungible token has no burn function - tokens cannot be destroyed`,
-        recommendation: 'Consider adding a burn function for deflationary mechanics'
-      });
-    }
 
-    // 7. Hardcoded addresses
-    const addrPattern = /SP[A-Z0-9]{38,}/g;
-    const hardcodedAddrs = (source.match(addrPattern) || []);
-    const uniqueAddrs = [...new Set(hardcodedAddrs)];
-    if (uniqueAddrs.length > 2) {
-      vulns.push({
-        id: 'SEC-007', severity: 'low',
-        title: 'Hardcoded Addresses',
-        description: `${meta.name} contains ${uniqueAddrs.length} hardcoded Stacks addresses`,
-        recommendation: 'Use configurable data-vars for addresses instead of hardcoding'
-      });
-    }
-
-    // 8. No error codes
-    if (!source.includes('err u') && !source.includes('(err ')) {
-      vulns.push({
-        id: 'SEC-008', severity: 'low',
-        title: 'Missing Error Codes',
-        description: `${meta.name} does not define typed error codes`,
-        recommendation: 'Define error constants for better debugging and UX'
-      });
-    }
-
-    // 9. SIP-010 compliance gaps
-    if (meta.tokenType?.includes('Fungible') && meta.sip010Compliance < 1.0) {
-      const missing = ['transfer', 'get-name', 'get-symbol', 'get-decimals', 'get-balance', 'get-total-supply', 'get-token-uri']
-        .filter(fn => !meta.sip010Functions.includes(fn));
-      vulns.push({
-        id: 'SEC-009', severity: 'medium',
-        title: 'Incomplete SIP-010',
-        description: `${meta.name} is missing SIP-010 functions: ${missing.join(', ')}`,
-        recommendation: 'Implement all SIP-010 standard functions for wallet compatibility'
-      });
-    }
-
-    // 10. Unprotected mint
-    if (source.includes('ft-mint?') && !source.includes('asserts!') && !source.includes('is-owner')) {
-      vulns.push({
-        id: 'SEC-010', severity: 'critical',
-        title: 'Unprotected Mint Function',
-        description: `${meta.name} has mint capability without access control`,
-        recommendation: 'Add owner/admin check to mint functions'
-      });
-    }
-
-    // 11. Large public surface area
-    if (meta.publicFunctions.length > 15) {
-      vulns.push({
-        id: 'SEC-011', severity: 'info',
-        title: 'Large Attack Surface',
-        description: `${meta.name} exposes ${meta.publicFunctions.length} public functions - larger attack surface`,
-        recommendation: 'Minimize public functions, use private helpers where possible'
-      });
-    }
-
-    // 12. Missing trait implementation
-    if (meta.tokenType?.includes('Fungible') && !meta.traits.some((t: string) => t.includes('sip-010'))) {
-      vulns.push({
-        id: 'SEC-012', severity: 'medium',
-        title: 'No Trait Declaration',
-        description: `${meta.name} appears to be a token but does not implement a standard trait`,
-        recommendation: 'Add impl-trait for SIP-010 to enable standard wallet detection'
-      });
-    }
-
-    return vulns;
+    const response = await stacksApi.getContractSource(address);
+    return response.source;
   }
 
-  private parseContractSource(source: string, address: string): any {
-    const parts = address.split('.');
-    const principal = parts[0];
-    const name = parts.slice(1).join('.') || 'unknown';
-    
-    const extract = (regex: RegExp): string[] => {
-      const results: string[] = [];
-      let m;
-      while ((m = regex.exec(source)) !== null) results.push(m[1]);
-      return results;
-    };
-
-    const publicFunctions = extract(/\(define-public\s+\(([^\s)]+)/g);
-    const readOnlyFunctions = extract(/\(define-read-only\s+\(([^\s)]+)/g);
-    const privateFunctions = extract(/\(define-private\s+\(([^\s)]+)/g);
-    const dataVars = extract(/\(define-data-var\s+([^\s)]+)/g);
-    const maps = extract(/\(define-map\s+([^\s)]+)/g);
-    const constants = extract(/\(define-constant\s+([^\s)]+)/g);
-    const traits = extract(/\(impl-trait\s+'?([^\s)]+)/g);
-    
-    const sip010Fns = ['transfer', 'get-name', 'get-symbol', 'get-decimals', 'get-balance', 'get-total-supply', 'get-token-uri'];
-    const allFns = [...publicFunctions, ...readOnlyFunctions];
-    const sip010Functions = sip010Fns.filter(fn => allFns.includes(fn));
-    
-    let tokenType: string | null = null;
-    if (source.includes('define-fungible-token')) tokenType = 'Fungible Token (SIP-010)';
-    else if (source.includes('define-non-fungible-token')) tokenType = 'NFT (SIP-009)';
-    else if (traits.some(t => t.includes('sip-010'))) tokenType = 'Fungible Token (SIP-010)';
-    else if (traits.some(t => t.includes('sip-009'))) tokenType = 'NFT (SIP-009)';
-
-    return {
-      name, principal, publicFunctions, readOnlyFunctions, privateFunctions,
-      dataVars, maps, constants, traits,
-      sourceLines: source.split('\n').length,
-      sourceBytes: source.length,
-      sip010Compliance: sip010Functions.length / sip010Fns.length,
-      sip010Functions, tokenType
-    };
+  private formatLocation(v: VulnerabilityInfo): string {
+    if (!v.location) return '';
+    return v.location.function ? ` (${v.location.function}, line ${v.location.line})` : ` (line ${v.location.line})`;
   }
 
   private calculateScore(vulns: VulnerabilityInfo[]): number {
-    let score = 100;
-    vulns.forEach(v => {
-      if (v.severity === 'critical') score -= 25;
-      else if (v.severity === 'high') score -= 15;
-      else if (v.severity === 'medium') score -= 8;
-      else if (v.severity === 'low') score -= 3;
-    });
+    const score = vulns.reduce((s, v) => s - v.deduction, 100);
     return Math.max(0, score);
   }
 
@@ -319,18 +205,37 @@ export class SecurityAnalyzer {
     return 'CRITICAL';
   }
 
-  private generateDetailedSummary(score: number, riskLevel: string, vulns: VulnerabilityInfo[], meta: any): string {
+  private generateDetailedSummary(score: number, riskLevel: string, vulns: VulnerabilityInfo[], meta: ContractMeta, graph: CallGraph, fingerprint: FingerprintReport, privileges: FunctionPrivilege[]): string {
     const lines: string[] = [];
     lines.push(`Security Audit of ${meta.name} (${meta.tokenType || 'Smart Contract'})`);
     lines.push(`Contract: ${meta.principal}.${meta.name} | ${meta.sourceLines} lines of Clarity code`);
-    lines.push(`Score: ${score}/100 | Risk: ${riskLevel} | ${vulns.length} issue${vulns.length !== 1 ? 's' : ''} found across 12 checks`);
+    lines.push(`Score: ${score}/100 | Risk: ${riskLevel} | ${vulns.length} issue${vulns.length !== 1 ? 's' : ''} found across ${this.rules.active.length} checks`);
     
-    if (meta.sip010Compliance < 1 && meta.tokenType?.includes('Fungible')) {
-      lines.push(`SIP-010 Compliance: ${Math.round(meta.sip010Compliance * 100)}% (${meta.sip010Functions.join(', ')})`);
+    if (meta.standard) {
+      const key = meta.standard.replace('-', '').toLowerCase() as 'sip010' | 'sip009' | 'sip013'; // SIP-009 -> sip009
+      const compliance = meta[`${key}Compliance` as const];
+      if (compliance < 1) {
+        lines.push(`${meta.standard} Compliance: ${Math.round(compliance * 100)}% (${meta[`${key}Functions` as const].join(', ')})`);
+      }
     }
     
     lines.push(`Public surface: ${meta.publicFunctions.length} public, ${meta.readOnlyFunctions.length} read-only, ${meta.privateFunctions.length} private functions`);
+
+    if (privileges.length > 0) {
+      const count = (access: string) => privileges.filter(p => p.access === access).length;
+      lines.push(`Access: ${count('permissionless')} permissionless, ${count('owner-gated')} owner-gated, ${count('allow-list')} allow-list`);
+    }
+
+    if (graph.nodes.length > 1) {
+      const unverified = graph.nodes.filter(n => n.status === 'unverified').length;
+      lines.push(`Dependencies: ${graph.nodes.length - 1} contract${graph.nodes.length !== 2 ? 's' : ''} within ${graph.maxDepth} hops${unverified ? ` (${unverified} unverified)` : ''}`);
+    }
     
+    const closest = fingerprint.matches[0];
+    if (closest && closest.similarity >= 0.5) {
+      lines.push(`Closest known contract: ${closest.name} (${closest.label}, ${Math.round(closest.similarity * 100)}% similar)`);
+    }
+
     if (vulns.length > 0) {
       lines.push(`Key findings: ${vulns.slice(0, 3).map(v => `[${v.severity.toUpperCase()}] ${v.title}`).join(' | ')}`);
     }
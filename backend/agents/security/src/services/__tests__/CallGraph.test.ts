@@ -0,0 +1,109 @@
+import { ContractInfo, stacksApi, StacksTransaction } from '@agentswarm/agent-kit';
+import { parseClarity } from '../ClarityParser';
+import { buildCallGraph, extractDependencies } from '../CallGraph';
+
+describe('extractDependencies', () => {
+  const source = `
+(use-trait ft-trait 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard.sip-010-trait)
+
+(define-public (stake (amount uint))
+  (contract-call? 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.arkadiko-token transfer amount tx-sender (as-contract tx-sender) none))
+
+(define-private (log-stake (amount uint))
+  (contract-call? .staking-log record amount))
+
+(define-public (swap (token <ft-trait>) (amount uint))
+  (contract-call? token transfer amount tx-sender (as-contract tx-sender) none))
+`;
+  const edges = extractDependencies('SP1DEPLOYER.pool', parseClarity(source));
+
+  it('resolves a literal contract principal', () => {
+    expect(edges).toContainEqual({
+      from: 'SP1DEPLOYER.pool', to: 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.arkadiko-token',
+      kind: 'contract-call', function: 'transfer', caller: 'stake', line: 5
+    });
+  });
+
+  it('resolves a .name target against the deployer', () => {
+    expect(edges).toContainEqual({
+      from: 'SP1DEPLOYER.pool', to: 'SP1DEPLOYER.staking-log',
+      kind: 'contract-call', function: 'record', caller: 'log-stake', line: 8
+    });
+  });
+
+  it('leaves a trait-parameter target open and names the trait from use-trait', () => {
+    expect(edges).toContainEqual({
+      from: 'SP1DEPLOYER.pool', to: null,
+      kind: 'contract-call', function: 'transfer', caller: 'swap', line: 11,
+      trait: 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard.sip-010-trait'
+    });
+  });
+
+  it('records the use-trait itself as a dependency on the trait contract', () => {
+    expect(edges).toContainEqual({
+      from: 'SP1DEPLOYER.pool', to: 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard',
+      kind: 'use-trait', function: null, caller: null, line: 2, trait: 'ft-trait'
+    });
+  });
+});
+
+describe('buildCallGraph', () => {
+  // root -> a, b, c; a -> deep; c has no readable source
+  const sources: Record<string, string> = {
+    'SP1ROOT.app': `
+(define-public (run)
+  (begin
+    (try! (contract-call? 'SP2DEP.a ping))
+    (try! (contract-call? .b ping))
+    (contract-call? 'SP3DEP.c ping)))`,
+    'SP2DEP.a': `(define-public (ping) (contract-call? 'SP4DEEP.deep ping))`,
+    'SP1ROOT.b': `(define-public (ping) (ok true))`,
+    'SP4DEEP.deep': `(define-public (ping) (ok true))`
+  };
+  const rootAst = parseClarity(sources['SP1ROOT.app']);
+  const now = Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    jest.spyOn(stacksApi, 'getContractInfo').mockImplementation(async contractId => {
+      if (!(contractId in sources)) throw new Error('Request failed with status code 404');
+      return { tx_id: `0x${contractId}`, contract_id: contractId, source_code: sources[contractId] } as ContractInfo;
+    });
+    // b was deployed yesterday, everything else a year ago
+    jest.spyOn(stacksApi, 'getTransaction').mockImplementation(async txId =>
+      ({ burn_block_time: txId === '0xSP1ROOT.b' ? now - 86400 : now - 365 * 86400 }) as StacksTransaction);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const byId = (graph: Awaited<ReturnType<typeof buildCallGraph>>) => new Map(graph.nodes.map(n => [n.contractId, n]));
+
+  it('walks dependencies down to maxDepth', async () => {
+    const shallow = await buildCallGraph('SP1ROOT.app', rootAst, { maxDepth: 1, maxContracts: 25, recentDays: 30 });
+    expect(shallow.nodes.map(n => n.contractId)).toEqual(['SP1ROOT.app', 'SP2DEP.a', 'SP1ROOT.b', 'SP3DEP.c']);
+    expect(shallow.edges.every(e => e.from === 'SP1ROOT.app')).toBe(true);
+
+    const deep = await buildCallGraph('SP1ROOT.app', rootAst, { maxDepth: 2, maxContracts: 25, recentDays: 30 });
+    expect(byId(deep).get('SP4DEEP.deep')).toMatchObject({ depth: 2, status: 'analyzed' });
+    expect(deep.edges).toContainEqual(expect.objectContaining({ from: 'SP2DEP.a', to: 'SP4DEEP.deep' }));
+  });
+
+  it('marks a dependency whose source cannot be fetched as unverified', async () => {
+    const graph = await buildCallGraph('SP1ROOT.app', rootAst, { maxDepth: 1, maxContracts: 25, recentDays: 30 });
+    expect(byId(graph).get('SP3DEP.c')).toMatchObject({ status: 'unverified', error: 'Request failed with status code 404' });
+    expect(byId(graph).get('SP1ROOT.b')).toMatchObject({ status: 'analyzed', recent: true });
+    expect(byId(graph).get('SP2DEP.a')).toMatchObject({ status: 'analyzed', recent: false });
+  });
+
+  it('skips dependencies past maxContracts without fetching them', async () => {
+    const graph = await buildCallGraph('SP1ROOT.app', rootAst, { maxDepth: 2, maxContracts: 3, recentDays: 30 });
+    const nodes = byId(graph);
+    expect(nodes.get('SP2DEP.a')?.status).toBe('analyzed');
+    expect(nodes.get('SP1ROOT.b')?.status).toBe('analyzed');
+    expect(nodes.get('SP3DEP.c')).toMatchObject({ depth: 1, status: 'skipped' });
+    expect(nodes.get('SP4DEEP.deep')).toMatchObject({ depth: 2, status: 'skipped' });
+    expect(stacksApi.getContractInfo).not.toHaveBeenCalledWith('SP3DEP.c');
+    expect(stacksApi.getContractInfo).not.toHaveBeenCalledWith('SP4DEEP.deep');
+  });
+});
@@ -0,0 +1,42 @@
+import fs from 'fs';
+import path from 'path';
+import { atomValue, ClarityParseError, findCalls, headOf, parseClarity } from '../ClarityParser';
+
+const SIP010 = fs.readFileSync(path.join(__dirname, '../../../fingerprints/templates/sip010-reference.clar'), 'utf8');
+
+describe('parseClarity', () => {
+  const ast = parseClarity(SIP010);
+  const byName = (name: string) => ast.definitions.find(d => d.name === name);
+
+  it('lists the top-level definitions of the SIP-010 template', () => {
+    expect(ast.definitions.filter(d => d.kind === 'define-public').map(d => d.name)).toEqual(['transfer', 'mint', 'burn']);
+    expect(ast.definitions.filter(d => d.kind === 'define-read-only').map(d => d.name)).toEqual(
+      ['get-name', 'get-symbol', 'get-decimals', 'get-balance', 'get-total-supply', 'get-token-uri']
+    );
+    expect(byName('token')?.kind).toBe('define-fungible-token');
+    expect(byName('contract-owner')?.kind).toBe('define-constant');
+    expect(ast.definitions.find(d => d.kind === 'impl-trait')?.name).toBe(
+      "'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard.sip-010-trait"
+    );
+  });
+
+  it('records function parameters and source lines', () => {
+    const transfer = byName('transfer')!;
+    expect(transfer.params).toEqual(['amount', 'sender', 'recipient', 'memo']);
+    expect(transfer.line).toBe(14);
+    expect(transfer.endLine).toBe(19);
+  });
+
+  it('keeps the transfer guard as a nested or of is-eq calls', () => {
+    const [guard] = findCalls(byName('transfer')!.body, 'asserts!');
+    const condition = guard.items[1];
+    expect(headOf(condition)).toBe('or');
+    const checks = findCalls(condition, 'is-eq').map(c => c.items.slice(1).map(atomValue));
+    expect(checks).toEqual([['tx-sender', 'sender'], ['contract-caller', 'sender']]);
+  });
+
+  it('rejects unbalanced source with the offending line', () => {
+    expect(() => parseClarity('(define-public (f)\n  (ok true)')).toThrow(ClarityParseError);
+    expect(() => parseClarity('(ok true))')).toThrow(/Unexpected '\)' at line 1/);
+  });
+});
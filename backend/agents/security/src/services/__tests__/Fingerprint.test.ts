@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+import { parseClarity } from '../ClarityParser';
+import { CorpusEntry, fingerprintContract, functionLists, loadCorpus, matchCorpus } from '../Fingerprint';
+
+const FINGERPRINTS = path.join(__dirname, '../../../fingerprints');
+const HONEYPOT = fs.readFileSync(path.join(FINGERPRINTS, 'templates/honeypot-ft.clar'), 'utf8');
+const SIP010 = fs.readFileSync(path.join(FINGERPRINTS, 'templates/sip010-reference.clar'), 'utf8');
+
+const corpus: CorpusEntry[] = loadCorpus(path.join(FINGERPRINTS, 'corpus.json'));
+
+function fingerprint(source: string) {
+  const ast = parseClarity(source);
+  return fingerprintContract(ast, functionLists(ast));
+}
+
+const matchFor = (source: string, id: string) => matchCorpus(fingerprint(source), corpus, corpus.length).matches.find(m => m.id === id)!;
+
+// Renames whole Clarity identifiers only, so `token` does not touch `get-token-uri`
+function rename(source: string, names: Record<string, string>): string {
+  return Object.entries(names).reduce(
+    (text, [from, to]) => text.replace(new RegExp(`(?<![\\w-])${from}(?![\\w-])`, 'g'), to),
+    source
+  );
+}
+
+// The honeypot as a scammer would redeploy it: new names, new trait address, new literals
+const DISGUISED = rename(HONEYPOT, {
+  'contract-owner': 'deployer',
+  'err-blocked': 'err-paused',
+  'token': 'moon',
+  'can-sell': 'vip',
+  'allow-seller': 'add-vip',
+  'sweep': 'collect-fees',
+  'who': 'account',
+  'amount': 'qty'
+})
+  .replace("'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE", "'SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9")
+  .replace('(err u1)', '(err u403)')
+  .replace('"Token"', '"Moon Coin"')
+  .replace('"TKN"', '"MOON"')
+  .replace('(ok u6)', '(ok u8)');
+
+describe('fingerprintContract', () => {
+  it('matches the corpus entries seeded from the templates', () => {
+    expect(fingerprint(HONEYPOT).hash).toBe(corpus.find(e => e.id === 'honeypot-ft')!.hash);
+    expect(fingerprint(SIP010).hash).toBe(corpus.find(e => e.id === 'sip010-reference')!.hash);
+  });
+
+  it('gives a renamed, re-addressed copy the same hash', () => {
+    expect(DISGUISED).not.toContain('can-sell');
+    expect(DISGUISED).not.toContain('SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE');
+    expect(fingerprint(DISGUISED).hash).toBe(fingerprint(HONEYPOT).hash);
+    expect(matchFor(DISGUISED, 'honeypot-ft')).toMatchObject({ exact: true, similarity: 1 });
+  });
+
+  it('changes the hash when the logic changes', () => {
+    const edited = HONEYPOT.replace('(ft-mint? token amount recipient)', '(ft-mint? token (* amount u2) recipient)');
+    expect(fingerprint(edited).hash).not.toBe(fingerprint(HONEYPOT).hash);
+  });
+});
+
+describe('matchCorpus', () => {
+  it('scores a lightly edited copy as a near clone of its entry', () => {
+    const edited = HONEYPOT
+      .replace('(ft-mint? token amount recipient)', '(begin (print { event: "mint", amount: amount }) (ft-mint? token amount recipient))')
+      + '\n(define-read-only (get-owner) (ok contract-owner))\n';
+    const [closest] = matchCorpus(fingerprint(edited), corpus).matches;
+
+    expect(closest.id).toBe('honeypot-ft');
+    expect(closest.exact).toBe(false);
+    expect(closest.codeSimilarity).toBeGreaterThanOrEqual(0.8);
+    expect(closest.similarity).toBeGreaterThanOrEqual(0.85); // FINGERPRINT_MATCH_THRESHOLD default
+  });
+
+  it('keeps a different token with the same SIP-010 surface below the match threshold', () => {
+    const match = matchFor(SIP010, 'honeypot-ft');
+    expect(match.exact).toBe(false);
+    expect(match.codeSimilarity).toBeLessThan(0.5);
+    expect(match.similarity).toBeLessThan(0.85);
+  });
+});
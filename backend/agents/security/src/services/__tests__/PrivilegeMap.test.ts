@@ -0,0 +1,37 @@
+import fs from 'fs';
+import path from 'path';
+import { parseClarity } from '../ClarityParser';
+import { indexFunctions } from '../ClarityAnalysis';
+import { buildPrivilegeMap } from '../PrivilegeMap';
+
+const SIP010 = fs.readFileSync(path.join(__dirname, '../../../fingerprints/templates/sip010-reference.clar'), 'utf8');
+const CANONICAL_GUARD = '(asserts! (or (is-eq tx-sender sender) (is-eq contract-caller sender)) err-not-token-owner)';
+
+function privilegesOf(source: string) {
+  const ast = parseClarity(source);
+  return buildPrivilegeMap(ast, indexFunctions(ast));
+}
+
+describe('buildPrivilegeMap', () => {
+  it('shows the SIP-010 transfer as public', () => {
+    const transfer = privilegesOf(SIP010).find(p => p.name === 'transfer');
+    expect(transfer).toMatchObject({ access: 'permissionless', guards: [], capabilities: [] });
+  });
+
+  it('shows the SIP-010 mint as owner-gated by contract-owner', () => {
+    const mint = privilegesOf(SIP010).find(p => p.name === 'mint');
+    expect(mint).toMatchObject({ access: 'owner-gated', guards: ['contract-owner'], capabilities: ['mint'] });
+  });
+
+  it('leaves the self-check out of a guard that also names the owner', () => {
+    const source = SIP010.replace(CANONICAL_GUARD, '(asserts! (and (is-eq tx-sender sender) (is-eq contract-caller contract-owner)) err-owner-only)');
+    const transfer = privilegesOf(source).find(p => p.name === 'transfer');
+    expect(transfer).toMatchObject({ access: 'owner-gated', guards: ['contract-owner'] });
+  });
+
+  it('marks a transfer of an argument-named sender as transfer-on-behalf once the self-check is gone', () => {
+    const source = SIP010.replace(CANONICAL_GUARD, '(asserts! (is-eq tx-sender contract-owner) err-owner-only)');
+    const transfer = privilegesOf(source).find(p => p.name === 'transfer');
+    expect(transfer).toMatchObject({ access: 'owner-gated', guards: ['contract-owner'], capabilities: ['transfer-on-behalf'] });
+  });
+});
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { parseClarity } from '../ClarityParser';
+import { callerGuards, indexFunctions } from '../ClarityAnalysis';
+import { loadRules, runRules } from '../RuleEngine';
+import { describeContract } from '../SecurityAnalyzer';
+
+const SIP010 = fs.readFileSync(path.join(__dirname, '../../../fingerprints/templates/sip010-reference.clar'), 'utf8');
+const NFT = `
+(impl-trait 'SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9.nft-trait.nft-trait)
+
+(define-constant contract-owner tx-sender)
+(define-constant max-supply u1000)
+(define-constant err-owner-only (err u100))
+(define-constant err-sold-out (err u101))
+(define-constant err-not-token-owner (err u102))
+
+(define-non-fungible-token collectible uint)
+
+(define-data-var last-token-id uint u0)
+(define-data-var base-uri (string-ascii 80) "ipfs://collection/")
+
+(define-read-only (get-last-token-id) (ok (var-get last-token-id)))
+(define-read-only (get-token-uri (id uint)) (ok (some (var-get base-uri))))
+(define-read-only (get-owner (id uint)) (ok (nft-get-owner? collectible id)))
+
+(define-public (transfer (id uint) (sender principal) (recipient principal))
+  (begin
+    (asserts! (is-eq tx-sender sender) err-not-token-owner)
+    (nft-transfer? collectible id sender recipient)))
+
+(define-public (mint (recipient principal))
+  (let ((id (+ (var-get last-token-id) u1)))
+    (asserts! (is-eq tx-sender contract-owner) err-owner-only)
+    (asserts! (<= id max-supply) err-sold-out)
+    (try! (nft-mint? collectible id recipient))
+    (var-set last-token-id id)
+    (ok id)))
+`;
+const CAP_CHECK = '    (asserts! (<= id max-supply) err-sold-out)\n';
+const URI_SETTER = `
+(define-public (set-base-uri (uri (string-ascii 80)))
+  (begin
+    (asserts! (is-eq tx-sender contract-owner) err-owner-only)
+    (ok (var-set base-uri uri))))
+`;
+const CANONICAL_GUARD = '(asserts! (or (is-eq tx-sender sender) (is-eq contract-caller sender)) err-not-token-owner)';
+
+// The template with its transfer guard swapped for `guard`
+const withTransferGuard = (guard: string) => SIP010.replace(CANONICAL_GUARD, guard);
+
+function audit(source: string) {
+  const ast = parseClarity(source);
+  return runRules(loadRules([path.join(__dirname, '../../../rules')], []).active, ast, describeContract(ast, source, 'SP1DEPLOYER.sample'));
+}
+
+const guardsOf = (source: string, fn: string) => {
+  const ast = parseClarity(source);
+  const fns = indexFunctions(ast);
+  return callerGuards(fns.get(fn)!, fns);
+};
+
+describe('callerGuards', () => {
+  it('treats the canonical SIP-010 transfer guard as a self-check', () => {
+    expect(SIP010).toContain(CANONICAL_GUARD);
+    expect(guardsOf(SIP010, 'transfer')).toEqual([]);
+  });
+
+  it('treats a bare caller-vs-argument check as a self-check', () => {
+    expect(guardsOf(withTransferGuard('(asserts! (is-eq tx-sender sender) err-not-token-owner)'), 'transfer')).toEqual([]);
+    expect(guardsOf(withTransferGuard('(asserts! (is-eq sender contract-caller) err-not-token-owner)'), 'transfer')).toEqual([]);
+  });
+
+  it('still gates an or whose every branch checks a privileged principal', () => {
+    const source = withTransferGuard('(asserts! (or (is-eq tx-sender contract-owner) (is-eq contract-caller contract-owner)) err-owner-only)');
+    expect(guardsOf(source, 'transfer')).toHaveLength(1);
+  });
+
+  it('does not gate an or with a branch any caller can satisfy', () => {
+    const source = withTransferGuard('(asserts! (or (is-eq tx-sender sender) (is-eq tx-sender contract-owner)) err-not-token-owner)');
+    expect(guardsOf(source, 'transfer')).toEqual([]);
+  });
+
+  it('gates an and when any part checks a privileged principal', () => {
+    const source = withTransferGuard('(asserts! (and (is-eq tx-sender sender) (is-eq contract-caller contract-owner)) err-owner-only)');
+    expect(guardsOf(source, 'transfer')).toHaveLength(1);
+  });
+
+  it('follows owner checks through helpers', () => {
+    const source = withTransferGuard('(asserts! (is-owner) err-owner-only)')
+      + '\n(define-private (is-owner) (is-eq tx-sender contract-owner))\n';
+    expect(guardsOf(source, 'transfer')).toHaveLength(1);
+  });
+});
+
+describe('runRules on the SIP-010 template', () => {
+  // The functions SEC-002 lists, from the end of its message
+  const centralised = (source: string) => audit(source).find(v => v.id === 'SEC-002')?.description.split(': ')[1];
+
+  it('flags only the owner-gated mint as centralised', () => {
+    expect(centralised(SIP010)).toBe('mint');
+  });
+
+  it('words the finding for allow-list guards as well as a single owner', () => {
+    const source = SIP010
+      .replace('(asserts! (is-eq tx-sender contract-owner) err-owner-only)', '(asserts! (default-to false (map-get? minters tx-sender)) err-owner-only)')
+      + '\n(define-map minters principal bool)\n';
+    expect(audit(source).find(v => v.id === 'SEC-002')?.description).toBe('sample has functions only privileged principal(s) can call: mint');
+  });
+
+  it('does not flag transfer with either self-check form', () => {
+    const bare = withTransferGuard('(asserts! (is-eq tx-sender sender) err-not-token-owner)');
+    expect(centralised(bare)).toBe('mint');
+  });
+
+  it('flags transfer once it is restricted to the owner', () => {
+    const source = withTransferGuard('(asserts! (is-eq tx-sender contract-owner) err-owner-only)');
+    expect(centralised(source)).toBe('transfer, mint');
+  });
+
+  it('raises no supply-cap or SIP-010 completeness findings', () => {
+    const ids = audit(SIP010).map(v => v.id);
+    expect(ids).not.toContain('SEC-001');
+    expect(ids).not.toContain('SEC-009');
+    expect(ids).not.toContain('SEC-010');
+  });
+});
+
+describe('runRules on an NFT', () => {
+  const finding = (source: string, id: string) => audit(source).find(v => v.id === id);
+
+  it('raises none of the NFT findings on a complete, capped, frozen collection', () => {
+    const ids = audit(NFT).map(v => v.id);
+    ['SEC-017', 'SEC-019', 'SEC-020', 'SEC-021'].forEach(id => expect(ids).not.toContain(id));
+  });
+
+  it('lists the SIP-009 functions a collection is missing', () => {
+    const source = NFT.replace(/\(define-read-only \(get-owner[^\n]*\n/, '');
+    expect(finding(source, 'SEC-017')?.description).toMatch(/missing SIP-009 functions: get-owner$/);
+  });
+
+  it('flags an NFT with no SIP-009 trait', () => {
+    expect(finding(NFT.replace(/\(impl-trait[^\n]*\n/, ''), 'SEC-019')).toBeDefined();
+  });
+
+  it('flags an uncapped mint but not one checked against max-supply', () => {
+    expect(finding(NFT, 'SEC-020')).toBeUndefined();
+    const uncapped = NFT.replace(CAP_CHECK, '').replace('(define-constant max-supply u1000)\n', '');
+    expect(finding(uncapped, 'SEC-020')).toMatchObject({ location: { function: 'mint' } });
+  });
+
+  it('flags a URI setter on an NFT', () => {
+    expect(finding(NFT + URI_SETTER, 'SEC-021')).toMatchObject({ location: { function: 'set-base-uri', line: expect.any(Number) } });
+  });
+
+  it('does not flag a SIP-010 token-uri setter as mutable NFT metadata', () => {
+    const setter = `
+(define-public (set-token-uri (value (string-utf8 256)))
+  (begin
+    (asserts! (is-eq tx-sender contract-owner) err-owner-only)
+    (ok (var-set token-uri (some value)))))
+`;
+    expect(audit(SIP010 + setter).map(v => v.id)).not.toContain('SEC-021');
+  });
+});
@@ -1,18 +1,10 @@
 import axios from 'axios';
+import { AnalysisResult, Analyzer, CanonicalTarget } from '@agentswarm/agent-kit';
 
-interface SocialResult {
-  score: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  issues: string[];
-  summary: string;
-  details: Record<string, any>;
-  scanTime: number;
-}
-
-export class SocialAnalyzer {
+export class SocialAnalyzer implements Analyzer {
   private readonly GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 
-  async analyze(tokenIdentifier: string): Promise<SocialResult> {
+  async analyze(target: CanonicalTarget): Promise<AnalysisResult> {
     const startTime = Date.now();
 
     try {
@@ -20,29 +12,24 @@ export class SocialAnalyzer {
       if (!this.GEMINI_API_KEY) {
         throw new Error('GEMINI_API_KEY not configured - cannot perform social sentiment analysis');
       }
-      return await this.aiSentimentAnalysis(tokenIdentifier, startTime);
+      return await this.aiSentimentAnalysis(target, startTime);
     } catch (error: any) {
       console.error('❌ AI sentiment analysis failed:', error.message);
       throw new Error(`Social sentiment analysis failed: ${error.message}`);
     }
   }
 
-  private async aiSentimentAnalysis(token: string, startTime: number): Promise<SocialResult> {
-    // Resolve contract name for better context  
-    let contractName = token;
-    let contractContext = '';
-    try {
-      if (token.startsWith('0x') && token.length === 66) {
-        const headers: Record<string, string> = {};
-        if (process.env.HIRO_API_KEY) headers['x-hiro-api-key'] = process.env.HIRO_API_KEY;
-        const txRes = await axios.get(`https://api.hiro.so/extended/v1/tx/${token}`, { timeout: 8000, headers });
-        contractName = txRes.data?.smart_contract?.contract_id || txRes.data?.contract_call?.contract_id || token;
-      }
-      if (contractName.includes('.')) {
-        const parts = contractName.split('.');
-        contractContext = `Contract name: "${parts.slice(1).join('.')}", deployed by ${parts[0]}`;
-      }
-    } catch {}
+  private async aiSentimentAnalysis(target: CanonicalTarget, startTime: number): Promise<AnalysisResult> {
+    // Give the model the resolved contract, symbol and BNS name for better context
+    const contractName = target.contractId || target.bnsName || target.input;
+    const context: string[] = [];
+    if (target.contractId) {
+      const parts = target.contractId.split('.');
+      context.push(`Contract name: "${parts.slice(1).join('.')}", deployed by ${parts[0]}`);
+    }
+    if (target.symbol) context.push(`Token symbol: ${target.symbol}`);
+    if (target.bnsName) context.push(`BNS name: ${target.bnsName}`);
+    const contractContext = context.join('\n');
     
     const prompt = `You are a blockchain security analyst specializing in Stacks/Bitcoin ecosystem tokens. Analyze the following token contract and provide a detailed risk assessment:
 
@@ -124,6 +111,8 @@ Be SPECIFIC to this token. If you recognize the contract name pattern (like brc2
             scamIndicatorCount: scamIndicators.length,
             trustSignalCount: trustSignals.length,
           },
+          // An LLM opinion, and a guess when the model did not commit to a score
+          confidence: typeof parsed.sentimentScore === 'number' ? 0.4 : 0.2,
           scanTime
         };
       } catch (err: any) {
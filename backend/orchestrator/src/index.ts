@@ -4,6 +4,7 @@ import dotenv from 'dotenv';
 import { orchestratorRouter } from './routes/orchestrator';
 import { agentRouter } from './routes/agents';
 import { paymentsRouter } from './routes/payments';
+import { settlementService } from './services/settlement';
 
 dotenv.config();
 
@@ -39,6 +40,7 @@ app.listen(PORT, () => {
   console.log(`🚀 Orchestrator running on port ${PORT}`);
   console.log(`📡 Network: ${process.env.STACKS_NETWORK}`);
   console.log(`🔗 Stacks API: ${process.env.STACKS_API_URL}`);
+  settlementService.startPolling();
 });
 
 export default app;
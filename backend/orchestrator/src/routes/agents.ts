@@ -1,9 +1,53 @@
 import { Router, Request, Response } from 'express';
 import axios from 'axios';
-import { agentRegistry } from '../services/agentRegistry';
+import { validateStacksAddress } from '@stacks/transactions';
+import { agentRegistry, AGENT_TYPES, AgentType } from '../services/agentRegistry';
+import { requireAdmin } from '../services/adminAuth';
 
 export const agentRouter = Router();
 
+// Every agent must answer GET /health with { status: 'healthy', type } matching its declared capability
+async function checkHealthContract(endpoint: string, type: AgentType): Promise<string | null> {
+  try {
+    const response = await axios.get(`${endpoint}/health`, { timeout: 5000 });
+    if (response.data?.status !== 'healthy') {
+      return `Agent health check returned status "${response.data?.status}"`;
+    }
+    if (response.data?.type !== type) {
+      return `Agent reports type "${response.data?.type}" but was registered as "${type}"`;
+    }
+    return null;
+  } catch (error: any) {
+    return `Agent health check failed: ${error.message}`;
+  }
+}
+
+function isValidEndpoint(endpoint: unknown): endpoint is string {
+  if (typeof endpoint !== 'string') return false;
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isValidPrice(price: unknown): price is number {
+  return typeof price === 'number' && Number.isInteger(price) && price > 0;
+}
+
+function isValidName(name: unknown): name is string {
+  return typeof name === 'string' && name.trim().length > 0 && name.length <= 64;
+}
+
+// Settlement sends STX here, so it must be a real standard (SP…) or contract (SP….name) principal
+function isValidPayoutAddress(address: unknown): address is string {
+  if (typeof address !== 'string') return false;
+  const [principal, contractName, ...rest] = address.split('.');
+  if (rest.length > 0 || (contractName !== undefined && !/^[a-zA-Z][a-zA-Z0-9_-]{0,39}$/.test(contractName))) return false;
+  return validateStacksAddress(principal);
+}
+
 // List all agents
 agentRouter.get('/', (_req: Request, res: Response) => {
   const agents = agentRegistry.getAllActiveAgents();
@@ -22,6 +66,122 @@ agentRouter.get('/', (_req: Request, res: Response) => {
   });
 });
 
+// Register a new agent
+agentRouter.post('/', requireAdmin, async (req: Request, res: Response) => {
+  const { id, name, type, endpoint, basePrice, payoutAddress } = req.body;
+
+  if (!id || !name || !type || !endpoint || basePrice === undefined) {
+    res.status(400).json({ error: 'Missing required fields: id, name, type, endpoint, basePrice' });
+    return;
+  }
+  if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9-]{2,63}$/.test(id)) {
+    res.status(400).json({ error: 'id must be 3-64 lowercase letters, digits or dashes' });
+    return;
+  }
+  if (!isValidName(name)) {
+    res.status(400).json({ error: 'name must be a non-empty string of at most 64 characters' });
+    return;
+  }
+  if (!AGENT_TYPES.includes(type)) {
+    res.status(400).json({ error: `Unknown agent type "${type}"`, supportedTypes: AGENT_TYPES });
+    return;
+  }
+  if (!isValidEndpoint(endpoint)) {
+    res.status(400).json({ error: 'endpoint must be an absolute http(s) URL' });
+    return;
+  }
+  if (!isValidPrice(basePrice)) {
+    res.status(400).json({ error: 'basePrice must be a positive integer (microSTX)' });
+    return;
+  }
+  if (payoutAddress !== undefined && !isValidPayoutAddress(payoutAddress)) {
+    res.status(400).json({ error: 'payoutAddress must be a Stacks principal' });
+    return;
+  }
+  if (agentRegistry.getAgentById(id)) {
+    res.status(409).json({ error: `Agent ${id} is already registered` });
+    return;
+  }
+
+  const healthError = await checkHealthContract(endpoint.replace(/\/$/, ''), type);
+  if (healthError) {
+    res.status(422).json({ error: healthError });
+    return;
+  }
+
+  const agent = agentRegistry.registerAgent({
+    id,
+    name,
+    type,
+    endpoint: endpoint.replace(/\/$/, ''),
+    basePrice,
+    payoutAddress
+  });
+  console.log(`🆕 Registered agent ${agent.name} (${agent.id}, ${agent.type}) at ${agent.endpoint}`);
+  res.status(201).json(agent);
+});
+
+// Update an agent's price, endpoint or payout address
+agentRouter.patch('/:agentId', requireAdmin, async (req: Request, res: Response) => {
+  const agent = agentRegistry.getAgentById(req.params.agentId);
+  if (!agent) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  const { name, endpoint, basePrice, payoutAddress, active } = req.body;
+  if (name !== undefined && !isValidName(name)) {
+    res.status(400).json({ error: 'name must be a non-empty string of at most 64 characters' });
+    return;
+  }
+  if (endpoint !== undefined && !isValidEndpoint(endpoint)) {
+    res.status(400).json({ error: 'endpoint must be an absolute http(s) URL' });
+    return;
+  }
+  if (basePrice !== undefined && !isValidPrice(basePrice)) {
+    res.status(400).json({ error: 'basePrice must be a positive integer (microSTX)' });
+    return;
+  }
+  if (payoutAddress !== undefined && !isValidPayoutAddress(payoutAddress)) {
+    res.status(400).json({ error: 'payoutAddress must be a Stacks principal' });
+    return;
+  }
+  if (active !== undefined && typeof active !== 'boolean') {
+    res.status(400).json({ error: 'active must be a boolean' });
+    return;
+  }
+
+  // A new endpoint has to honour the same health contract as a fresh registration
+  const newEndpoint = endpoint !== undefined ? endpoint.replace(/\/$/, '') : undefined;
+  if (newEndpoint && newEndpoint !== agent.endpoint) {
+    const healthError = await checkHealthContract(newEndpoint, agent.type);
+    if (healthError) {
+      res.status(422).json({ error: healthError });
+      return;
+    }
+  }
+
+  const updated = agentRegistry.updateAgent(agent.id, {
+    ...(name !== undefined && { name }),
+    ...(newEndpoint !== undefined && { endpoint: newEndpoint }),
+    ...(basePrice !== undefined && { basePrice }),
+    ...(payoutAddress !== undefined && { payoutAddress }),
+    ...(active !== undefined && { active })
+  });
+  res.json(updated);
+});
+
+// Retire an agent; it stops receiving bids but its record is kept
+agentRouter.delete('/:agentId', requireAdmin, (req: Request, res: Response) => {
+  const agent = agentRegistry.retireAgent(req.params.agentId);
+  if (!agent) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+  console.log(`🗑️  Retired agent ${agent.name} (${agent.id})`);
+  res.json({ success: true, agentId: agent.id, active: agent.active });
+});
+
 // Get specific agent info
 agentRouter.get('/:agentId', (req: Request, res: Response) => {
   const agent = agentRegistry.getAgentById(req.params.agentId);
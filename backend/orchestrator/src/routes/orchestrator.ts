@@ -1,24 +1,47 @@
 import { Router, Request, Response } from 'express';
-import axios from 'axios';
-import { IntelligenceRequest, AgentResponse } from '../types';
-import { agentRegistry } from '../services/agentRegistry';
-import { consensusCalculator } from '../services/consensusCalculator';
+import { randomUUID } from 'crypto';
+import { resolveTarget } from '@agentswarm/agent-kit';
+import { IntelligenceRequest, AuctionResult, AgentResponse, AgentBid, QuorumCheck, StoredReport, VerdictCode } from '../types';
+import { agentRegistry, AGENT_TYPES } from '../services/agentRegistry';
+import { consensusCalculator, DEFAULT_STRATEGY } from '../services/consensusCalculator';
+import { reportStore } from '../services/reportStore';
+import { dispatchToAgents } from '../services/agentDispatcher';
+import { runTracker } from '../services/runTracker';
+import { runAuction } from '../services/auction';
+import { jobStore } from '../services/jobStore';
+import { deliverWebhook, validateCallbackUrl } from '../services/webhook';
+import { checkQuorum, resolveQuorum } from '../services/quorum';
+import { paymentLedger } from '../services/paymentLedger';
+import { settlementService } from '../services/settlement';
 
-let paidAxios: ReturnType<typeof axios.create> | null = null;
 let paymentMw: any = null;
 
+const VERDICT_CODES: VerdictCode[] = ['LOW_RISK', 'MEDIUM_RISK', 'HIGH_RISK', 'CRITICAL_RISK'];
+
+const PLATFORM_FEE_PERCENT = 5;
+
+// What a caller pays for /request-paid: all 5 agents at list price plus the platform fee
+function orchestratorPrice(): number {
+  const totalAgentCost = 460000; // Total cost of all 5 agents
+  const platformFee = Math.round(totalAgentCost * PLATFORM_FEE_PERCENT / 100);
+  return Number(process.env.ORCHESTRATOR_PRICE_MICROSTX || totalAgentCost + platformFee);
+}
+
+// The share of a paid request left for agents once the platform fee is taken out
+function paidAgentAllowance(): number {
+  return Math.floor(orchestratorPrice() * 100 / (100 + PLATFORM_FEE_PERCENT));
+}
+
 // Lazy-init the x402 payment middleware for the orchestrator endpoint
 async function getPaymentMiddleware() {
   if (paymentMw) return paymentMw;
   try {
     const { paymentMiddleware, STACKS_NETWORKS } = await import('x402-stacks');
-    
-    const totalAgentCost = 460000; // Total cost of all 5 agents
-    const platformFee = Math.round(totalAgentCost * 0.05); // 5% platform fee
-    const totalAmount = totalAgentCost + platformFee;
-    
+
+    const totalAmount = orchestratorPrice();
+
     paymentMw = paymentMiddleware({
-      amount: BigInt(process.env.ORCHESTRATOR_PRICE_MICROSTX || String(totalAmount)),
+      amount: BigInt(totalAmount),
       payTo: process.env.ORCHESTRATOR_ADDRESS || process.env.SERVER_ADDRESS!,
       network: STACKS_NETWORKS.TESTNET,
       asset: 'STX',
@@ -32,33 +55,160 @@ async function getPaymentMiddleware() {
   }
 }
 
-// Lazy-init the x402-wrapped axios client for production mode
-async function getPaidAxios() {
-  if (paidAxios) return paidAxios;
+function validateRequest(request: IntelligenceRequest): string | null {
+  if (!request.query || request.budget === undefined || !request.requesterAddress) {
+    return 'Missing required fields: query, budget, requesterAddress';
+  }
+  // The auction and dispatcher compare prices against it; NaN or a string would let everything or nothing through
+  if (typeof request.budget !== 'number' || !Number.isFinite(request.budget) || request.budget <= 0) {
+    return 'budget must be a positive number of microSTX';
+  }
+  const unknownTypes = (request.requiredTypes || []).filter(t => !(AGENT_TYPES as readonly string[]).includes(t));
+  if (unknownTypes.length > 0) {
+    return `Unknown requiredTypes: ${unknownTypes.join(', ')}`;
+  }
+  if (request.consensusStrategy && !consensusCalculator.hasStrategy(request.consensusStrategy)) {
+    return `Unknown consensusStrategy: ${request.consensusStrategy}`;
+  }
+  const unknownQuorumTypes = (request.quorum?.requiredTypes || []).filter(t => !(AGENT_TYPES as readonly string[]).includes(t));
+  if (unknownQuorumTypes.length > 0) {
+    return `Unknown quorum.requiredTypes: ${unknownQuorumTypes.join(', ')}`;
+  }
+  return null;
+}
+
+// Resolves tokenAddress once into the canonical target every agent receives; returns an error message if it cannot
+async function attachTarget(request: IntelligenceRequest): Promise<string | null> {
+  delete request.target;
+  if (!request.tokenAddress) return null;
   try {
-    const { wrapAxiosWithPayment, privateKeyToAccount } = await import('x402-stacks');
-    
-    const privateKey = process.env.ORCHESTRATOR_PRIVATE_KEY;
-    if (!privateKey) {
-      throw new Error('ORCHESTRATOR_PRIVATE_KEY not set in .env - orchestrator cannot pay agents');
+    request.target = await resolveTarget(request.tokenAddress);
+    console.log(`🎯 Target ${request.target.input} → ${request.target.kind}${request.target.contractId ? ` ${request.target.contractId}` : ''}${request.target.symbol ? ` (${request.target.symbol})` : ''}`);
+    return null;
+  } catch (error: any) {
+    return `Could not resolve tokenAddress ${request.tokenAddress}: ${error.message}`;
+  }
+}
+
+// The bids behind the responses that came back, so quorum can check their types
+function respondents(responses: AgentResponse[], bids: AgentBid[]): AgentBid[] {
+  return bids.filter(b => responses.some(r => r.agentId === b.agentId));
+}
+
+// Structured answer in place of a recommendation when quorum is not met
+function insufficientCoverage(check: QuorumCheck, stage: 'selection' | 'responses', extra: Record<string, any> = {}) {
+  return {
+    success: false,
+    status: 'INSUFFICIENT_COVERAGE',
+    stage,
+    message: `Quorum not met${stage === 'selection' ? ' by the selected agents' : ''}: ${check.reasons.join('; ')}`,
+    coverage: check,
+    ...extra
+  };
+}
+
+// Sends the full x402 price back to whoever paid for a request that could not be answered
+async function refundPaidRequest(req: Request, requestId: string, reason: string) {
+  const payer: string | null = (req as any).payment?.payer || null;
+  const { refund } = paymentLedger.recordRefund(requestId, payer, orchestratorPrice(), reason);
+  return settlementService.refund(refund);
+}
+
+const coverageReason = (check: QuorumCheck) => `INSUFFICIENT_COVERAGE: ${check.reasons.join('; ')}`;
+
+function budgetTooLow(auction: AuctionResult) {
+  const cheapest = Math.min(...auction.bids.map(b => b.price));
+  return {
+    error: 'Budget too low for any agents',
+    minimumBudget: Number.isFinite(cheapest) ? cheapest : null
+  };
+}
+
+// Response body shared by the blocking, paid and streamed request paths
+function buildResult(report: StoredReport) {
+  const { selected: _selected, ...auction } = report.auction || {};
+  return {
+    success: true,
+    paidMode: report.paidMode,
+    requestId: report.id,
+    request: {
+      query: report.request.query,
+      tokenAddress: report.request.tokenAddress,
+      target: report.request.target,
+      timestamp: report.createdAt
+    },
+    consensus: report.consensus,
+    agentCount: report.consensus.responses.length,
+    availableAgents: report.availableAgents,
+    auction: report.auction ? auction : undefined
+  };
+}
+
+// Runs a tracked request in the background, publishing progress to its event stream
+async function runTrackedRequest(
+  runId: string,
+  request: IntelligenceRequest,
+  auction: AuctionResult,
+  paid: boolean
+): Promise<StoredReport | null> {
+  try {
+    const successfulResponses = await dispatchToAgents(request, auction.selected, {
+      paid,
+      onEvent: event => runTracker.emit(runId, event)
+    });
+
+    if (successfulResponses.length === 0) {
+      runTracker.emit(runId, {
+        type: 'request_failed',
+        error: 'All agents failed to analyze this token/contract',
+        message: 'The provided address may be invalid or not found on the Stacks blockchain.',
+        timestamp: new Date().toISOString()
+      });
+      return null;
     }
-    
-    const account = privateKeyToAccount(privateKey, 'testnet');
-    
-    paidAxios = wrapAxiosWithPayment(
-      axios.create({ timeout: 60000 }),
-      account
-    );
-    console.log(`💳 x402 payment client initialized | Orchestrator Address: ${account.address}`);
-    console.log(`💰 Fund this address at: https://explorer.stacks.co/sandbox/faucet?chain=testnet`);
-    return paidAxios;
-  } catch (err: any) {
-    console.error('⚠️ x402 payment client failed:', err.message);
-    console.log('📌 Falling back to free endpoints');
-    return axios;
+
+    const coverage = checkQuorum(resolveQuorum(request), respondents(successfulResponses, auction.selected));
+    if (!coverage.met) {
+      runTracker.emit(runId, {
+        type: 'request_failed',
+        error: 'INSUFFICIENT_COVERAGE',
+        message: coverage.reasons.join('; '),
+        coverage,
+        timestamp: new Date().toISOString()
+      });
+      return null;
+    }
+
+    const consensus = consensusCalculator.calculateConsensus(successfulResponses, request.consensusStrategy);
+    runTracker.emit(runId, { type: 'consensus', consensus, timestamp: new Date().toISOString() });
+
+    const report = reportStore.saveReport(request, consensus, { paidMode: paid, availableAgents: auction.bids.length, id: runId, auction });
+    console.log(`✅ Streamed consensus from ${successfulResponses.length} agents | Score: ${consensus.averageScore}/100 | Report: ${report.id}`);
+
+    runTracker.emit(runId, { type: 'complete', result: buildResult(report), timestamp: new Date().toISOString() });
+    return report;
+  } catch (error: any) {
+    console.error('Streamed orchestrator error:', error);
+    runTracker.emit(runId, { type: 'request_failed', error: error.message, timestamp: new Date().toISOString() });
+    return null;
   }
 }
 
+// Runs an async job to completion, then POSTs the signed outcome to its callbackUrl if one was given
+async function runJob(jobId: string, request: IntelligenceRequest, auction: AuctionResult, paid: boolean) {
+  const report = await runTrackedRequest(jobId, request, auction, paid);
+  if (!request.callbackUrl) return;
+
+  const job = jobStore.get(jobId);
+  const payload = report
+    ? { jobId, status: 'completed', requestId: report.id, consensus: report.consensus }
+    : { jobId, status: 'failed', error: job?.error || 'Job failed' };
+
+  const delivery = await deliverWebhook(request.callbackUrl, payload);
+  jobStore.recordCallback(jobId, delivery);
+  console.log(`${delivery.delivered ? '📬' : '⚠️'} Job ${jobId} callback ${delivery.delivered ? 'delivered' : 'failed'} after ${delivery.attempts} attempt(s)`);
+}
+
 export const orchestratorRouter = Router();
 
 // Submit intelligence request
@@ -66,18 +216,24 @@ orchestratorRouter.post('/request', async (req: Request, res: Response) => {
   try {
     const request: IntelligenceRequest = req.body;
 
-    if (!request.query || !request.budget || !request.requesterAddress) {
-      res.status(400).json({ error: 'Missing required fields: query, budget, requesterAddress' });
+    const validationError = validateRequest(request) || await attachTarget(request);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
       return;
     }
 
-    const bids = agentRegistry.getAgentBids(request.budget);
+    const auction = await runAuction(request);
+    const bids = auction.selected;
 
     if (bids.length === 0) {
-      res.status(400).json({ 
-        error: 'Budget too low for any agents',
-        minimumBudget: 50000
-      });
+      res.status(400).json(budgetTooLow(auction));
+      return;
+    }
+
+    const quorum = resolveQuorum(request);
+    const planned = checkQuorum(quorum, bids);
+    if (!planned.met) {
+      res.status(422).json(insufficientCoverage(planned, 'selection'));
       return;
     }
 
@@ -86,78 +242,7 @@ orchestratorRouter.post('/request', async (req: Request, res: Response) => {
     // Determine payment mode: USE_REAL_PAYMENTS=true forces x402 payments
     const useRealPayments = process.env.USE_REAL_PAYMENTS === 'true';
     
-    const agentPromises = bids.map(async (bid) => {
-      const startTime = Date.now();
-      try {
-        let endpoint: string;
-        let client: any;
-
-        if (useRealPayments) {
-          // x402 REAL PAYMENT MODE: Call /analyze with x402 payment client
-          endpoint = `${bid.endpoint}/analyze`;
-          client = await getPaidAxios();
-          console.log(`💳 Using x402 payment for ${bid.agentName} at ${endpoint}`);
-        } else {
-          // Free mode for testing without blockchain payments
-          endpoint = `${bid.endpoint}/analyze-free`;
-          client = axios;
-          console.log(`🆓 Using free endpoint for ${bid.agentName}`);
-        }
-
-        const response = await client.post(
-          endpoint,
-          {
-            query: request.query,
-            tokenAddress: request.tokenAddress,
-            priority: request.priority || 'medium'
-          },
-          { timeout: 60000 }
-        );
-
-        const executionTime = Date.now() - startTime;
-        agentRegistry.updateAgentReputation(bid.agentId, true, executionTime);
-
-        // Decode x402 payment proof from response headers
-        const paymentResponse = response.headers?.['payment-response'] || null;
-        let payment: any = null;
-        if (paymentResponse) {
-          try {
-            const decoded = JSON.parse(Buffer.from(paymentResponse, 'base64').toString());
-            payment = {
-              success: decoded.success,
-              payer: decoded.payer,
-              txHash: decoded.transaction,
-              network: decoded.network,
-              explorerUrl: `https://explorer.hiro.so/txid/${decoded.transaction}?chain=testnet`
-            };
-            console.log(`  ✅ ${bid.agentName} paid: ${decoded.transaction.slice(0, 16)}...`);
-          } catch {}
-        }
-        
-        return {
-          agentId: bid.agentId,
-          agentName: bid.agentName,
-          score: response.data.score,
-          analysis: response.data.analysis || response.data.summary,
-          riskLevel: response.data.riskLevel,
-          flags: response.data.flags || response.data.issues || [],
-          metadata: {
-            ...response.data.metadata,
-            price: bid.price,
-            paidViaX402: useRealPayments,
-            payment: payment
-          },
-          executionTime
-        } as AgentResponse;
-      } catch (error: any) {
-        console.error(`❌ Agent ${bid.agentName} failed:`, error.message);
-        agentRegistry.updateAgentReputation(bid.agentId, false, Date.now() - startTime);
-        return null;
-      }
-    });
-
-    const results = await Promise.all(agentPromises);
-    const successfulResponses = results.filter((r): r is AgentResponse => r !== null);
+    const successfulResponses = await dispatchToAgents(request, bids, { paid: useRealPayments });
 
     if (successfulResponses.length === 0) {
       res.status(400).json({ 
@@ -168,28 +253,166 @@ orchestratorRouter.post('/request', async (req: Request, res: Response) => {
       return;
     }
 
-    const consensus = consensusCalculator.calculateConsensus(successfulResponses);
+    const coverage = checkQuorum(quorum, respondents(successfulResponses, bids));
+    if (!coverage.met) {
+      res.status(422).json(insufficientCoverage(coverage, 'responses'));
+      return;
+    }
 
-    console.log(`✅ Consensus from ${successfulResponses.length} agents | Score: ${consensus.averageScore}/100 | Strength: ${consensus.consensusStrength}`);
+    const consensus = consensusCalculator.calculateConsensus(successfulResponses, request.consensusStrategy);
 
-    res.json({
-      success: true,
-      request: {
-        query: request.query,
-        tokenAddress: request.tokenAddress,
-        timestamp: new Date().toISOString()
-      },
-      consensus,
-      agentCount: successfulResponses.length,
-      availableAgents: bids.length
+    const report = reportStore.saveReport(request, consensus, { paidMode: useRealPayments, availableAgents: auction.bids.length, auction });
+
+    console.log(`✅ Consensus from ${successfulResponses.length} agents | Score: ${consensus.averageScore}/100 | Strength: ${consensus.consensusStrength} | Report: ${report.id}`);
+
+    res.json(buildResult(report));
+
+  } catch (error: any) {
+    console.error('Orchestrator error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Start an intelligence request without waiting; progress streams from /request/:id/events
+orchestratorRouter.post('/request/start', async (req: Request, res: Response) => {
+  try {
+    const request: IntelligenceRequest = req.body;
+
+    const validationError = validateRequest(request) || await attachTarget(request);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const auction = await runAuction(request);
+    if (auction.selected.length === 0) {
+      res.status(400).json(budgetTooLow(auction));
+      return;
+    }
+
+    const planned = checkQuorum(resolveQuorum(request), auction.selected);
+    if (!planned.met) {
+      res.status(422).json(insufficientCoverage(planned, 'selection'));
+      return;
+    }
+
+    const run = runTracker.create();
+    console.log(`📡 Streaming request ${run.id} to ${auction.selected.length} agents...`);
+
+    res.status(202).json({
+      requestId: run.id,
+      eventsUrl: `/api/orchestrator/request/${run.id}/events`,
+      agents: auction.selections
+    });
+
+    runTrackedRequest(run.id, request, auction, process.env.USE_REAL_PAYMENTS === 'true');
+  } catch (error: any) {
+    console.error('Orchestrator error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Server-Sent Events stream of a started request's progress
+orchestratorRouter.get('/request/:id/events', (req: Request, res: Response) => {
+  const run = runTracker.get(req.params.id);
+  if (!run) {
+    res.status(404).json({ error: 'Request not found or expired' });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  const unsubscribe = runTracker.subscribe(run.id, event => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === 'complete' || event.type === 'request_failed') res.end();
+  });
+  req.on('close', unsubscribe);
+});
+
+// Submit an async job; returns immediately with a job ID to poll
+orchestratorRouter.post('/jobs', async (req: Request, res: Response) => {
+  try {
+    const request: IntelligenceRequest = req.body;
+
+    const validationError = validateRequest(request) || await attachTarget(request);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    if (request.callbackUrl) {
+      // Unsigned callbacks are never sent, so refuse the job rather than drop its callback later
+      const callbackError = process.env.CALLBACK_SIGNING_SECRET
+        ? await validateCallbackUrl(request.callbackUrl)
+        : 'callbackUrl is not available: CALLBACK_SIGNING_SECRET is not configured on this orchestrator';
+      if (callbackError) {
+        res.status(400).json({ error: callbackError });
+        return;
+      }
+    }
+
+    const auction = await runAuction(request);
+    if (auction.selected.length === 0) {
+      res.status(400).json(budgetTooLow(auction));
+      return;
+    }
+
+    const planned = checkQuorum(resolveQuorum(request), auction.selected);
+    if (!planned.met) {
+      res.status(422).json(insufficientCoverage(planned, 'selection'));
+      return;
+    }
+
+    const run = runTracker.create();
+    jobStore.create(run.id, request);
+    runTracker.subscribe(run.id, event => jobStore.applyEvent(run.id, event));
+    console.log(`🧾 Job ${run.id} queued for ${auction.selected.length} agents${request.callbackUrl ? ` | callback: ${request.callbackUrl}` : ''}`);
+
+    res.status(202).json({
+      jobId: run.id,
+      status: 'queued',
+      statusUrl: `/api/orchestrator/jobs/${run.id}`,
+      eventsUrl: `/api/orchestrator/request/${run.id}/events`
     });
 
+    runJob(run.id, request, auction, process.env.USE_REAL_PAYMENTS === 'true');
   } catch (error: any) {
     console.error('Orchestrator error:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Job status with partial per-agent results; includes the consensus once completed
+orchestratorRouter.get('/jobs/:id', (req: Request, res: Response) => {
+  const job = jobStore.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+
+  const report = job.status === 'completed' ? reportStore.getReport(job.id) : undefined;
+  res.json({
+    jobId: job.id,
+    status: job.status,
+    request: { query: job.request.query, tokenAddress: job.request.tokenAddress, target: job.request.target },
+    partialResults: job.partialResults,
+    consensus: report?.consensus || null,
+    error: job.error,
+    callback: job.callback,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+  });
+});
+
+// Consensus strategies a request can pick with `consensusStrategy`
+orchestratorRouter.get('/strategies', (_req: Request, res: Response) => {
+  res.json({ default: DEFAULT_STRATEGY, strategies: consensusCalculator.listStrategies() });
+});
+
 // Get available agents
 orchestratorRouter.get('/agents', (_req: Request, res: Response) => {
   const agents = agentRegistry.getAllActiveAgents();
@@ -198,6 +421,14 @@ orchestratorRouter.get('/agents', (_req: Request, res: Response) => {
 
 // x402 PAID ENDPOINT - User pays orchestrator, orchestrator pays agents
 orchestratorRouter.post('/request-paid', async (req: Request, res: Response) => {
+  // Set once the x402 payment has settled; from then on every failure refunds the payer
+  let requestId: string | null = null;
+
+  const failPaid = async (status: number, body: Record<string, any>, reason: string) => {
+    const refund = await refundPaidRequest(req, requestId!, reason);
+    res.status(status).json({ ...body, requestId, refund });
+  };
+
   try {
     // Apply x402 payment middleware dynamically
     const mw = await getPaymentMiddleware();
@@ -216,108 +447,105 @@ orchestratorRouter.post('/request-paid', async (req: Request, res: Response) =>
 
     // If we get here, payment was successful
     // Now forward to the same logic as /request but with x402 agent payments
-    const request: IntelligenceRequest = req.body;
-    if (!request.query || !request.budget || !request.requesterAddress) {
-      res.status(400).json({ error: 'Missing required fields: query, budget, requesterAddress' });
+    requestId = randomUUID();
+
+    const validationError = validateRequest(req.body);
+    if (validationError) {
+      await failPaid(400, { error: validationError }, `INVALID_REQUEST: ${validationError}`);
       return;
     }
 
-    // Force USE_REAL_PAYMENTS for the paid endpoint
-    const originalSetting = process.env.USE_REAL_PAYMENTS;
-    process.env.USE_REAL_PAYMENTS = 'true';
+    // Agent spend is bounded by both the stated budget and what the caller actually paid for
+    const request: IntelligenceRequest = { ...req.body, budget: Math.min(req.body.budget, paidAgentAllowance()) };
+    const targetError = await attachTarget(request);
+    if (targetError) {
+      await failPaid(400, { error: targetError }, `INVALID_TARGET: ${targetError}`);
+      return;
+    }
 
-    const bids = agentRegistry.getAgentBids(request.budget);
+    const auction = await runAuction(request);
+    const bids = auction.selected;
     if (bids.length === 0) {
-      process.env.USE_REAL_PAYMENTS = originalSetting;
-      res.status(400).json({ error: 'Budget too low for any agents', minimumBudget: 50000 });
+      const body = budgetTooLow(auction);
+      await failPaid(400, body, `BUDGET_TOO_LOW: ${body.error}`);
       return;
     }
 
-    console.log(`💳 PAID request: Broadcasting to ${bids.length} agents with x402 payments...`);
-    const paidClient = await getPaidAxios();
-
-    const agentPromises = bids.map(async (bid) => {
-      const startTime = Date.now();
-      try {
-        console.log(`💳 Paying ${bid.agentName} (${bid.price} microSTX) via x402...`);
-        const response = await paidClient.post(
-          `${bid.endpoint}/analyze`,
-          {
-            query: request.query,
-            tokenAddress: request.tokenAddress,
-            priority: request.priority || 'medium'
-          },
-          { timeout: 60000 }
-        );
-
-        const executionTime = Date.now() - startTime;
-        agentRegistry.updateAgentReputation(bid.agentId, true, executionTime);
-        const paymentResponse = response.headers?.['payment-response'] || null;
-        let payment: any = null;
-        if (paymentResponse) {
-          try {
-            const decoded = JSON.parse(Buffer.from(paymentResponse, 'base64').toString());
-            payment = {
-              success: decoded.success,
-              payer: decoded.payer,
-              txHash: decoded.transaction,
-              network: decoded.network,
-              explorerUrl: `https://explorer.hiro.so/txid/${decoded.transaction}?chain=testnet`
-            };
-            console.log(`  ✅ ${bid.agentName} paid: ${decoded.transaction.slice(0, 16)}...`);
-          } catch {}
-        }
-
-        return {
-          agentId: bid.agentId,
-          agentName: bid.agentName,
-          score: response.data.score,
-          analysis: response.data.analysis || response.data.summary,
-          riskLevel: response.data.riskLevel,
-          flags: response.data.flags || response.data.issues || [],
-          metadata: {
-            ...response.data.metadata,
-            price: bid.price,
-            paidViaX402: true,
-            payment: payment
-          },
-          executionTime
-        } as AgentResponse;
-      } catch (error: any) {
-        console.error(`❌ Agent ${bid.agentName} payment/analysis failed:`, error.message);
-        agentRegistry.updateAgentReputation(bid.agentId, false, Date.now() - startTime);
-        return null;
-      }
-    });
+    const quorum = resolveQuorum(request);
+    const planned = checkQuorum(quorum, bids);
+    if (!planned.met) {
+      await failPaid(422, insufficientCoverage(planned, 'selection'), coverageReason(planned));
+      return;
+    }
 
-    const results = await Promise.all(agentPromises);
-    process.env.USE_REAL_PAYMENTS = originalSetting;
-    const successfulResponses = results.filter((r): r is AgentResponse => r !== null);
+    console.log(`💳 PAID request: Broadcasting to ${bids.length} agents with x402 payments...`);
+    const successfulResponses = await dispatchToAgents(request, bids, { paid: true });
 
-    if (successfulResponses.length === 0) {
-      res.status(400).json({ error: 'All agents failed', message: 'Payment was collected but all agents failed. Check contract address.' });
+    // Covers the all-agents-failed case too: the payer gets their money back either way
+    const coverage = checkQuorum(quorum, respondents(successfulResponses, bids));
+    if (!coverage.met) {
+      await failPaid(422, insufficientCoverage(coverage, 'responses'), coverageReason(coverage));
       return;
     }
 
-    const consensus = consensusCalculator.calculateConsensus(successfulResponses);
-    console.log(`✅ PAID consensus from ${successfulResponses.length} agents | Score: ${consensus.averageScore}/100`);
+    const consensus = consensusCalculator.calculateConsensus(successfulResponses, request.consensusStrategy);
+    const report = reportStore.saveReport(request, consensus, { paidMode: true, availableAgents: auction.bids.length, id: requestId, auction });
+    console.log(`✅ PAID consensus from ${successfulResponses.length} agents | Score: ${consensus.averageScore}/100 | Report: ${report.id}`);
 
-    res.json({
-      success: true,
-      paidMode: true,
-      request: { query: request.query, tokenAddress: request.tokenAddress, timestamp: new Date().toISOString() },
-      consensus,
-      agentCount: successfulResponses.length,
-      availableAgents: bids.length
-    });
+    res.json(buildResult(report));
 
   } catch (error: any) {
     if (res.headersSent) return;
     console.error('Paid orchestrator error:', error);
+    if (requestId) {
+      await failPaid(500, { error: error.message }, `INTERNAL_ERROR: ${error.message}`).catch(refundError => {
+        console.error(`  ❌ Refund for ${requestId} failed:`, refundError.message);
+        res.status(500).json({ error: error.message, requestId });
+      });
+      return;
+    }
     res.status(500).json({ error: error.message });
   }
 });
 
+// List stored reports (paginated, filterable)
+orchestratorRouter.get('/reports', (req: Request, res: Response) => {
+  const page = Math.max(1, parseInt(String(req.query.page || '1')) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit || '20')) || 20));
+
+  if (req.query.verdict && !VERDICT_CODES.includes(req.query.verdict as VerdictCode)) {
+    res.status(400).json({ error: `verdict must be one of ${VERDICT_CODES.join(', ')}` });
+    return;
+  }
+
+  const { total, reports } = reportStore.listReports({
+    tokenAddress: req.query.tokenAddress as string | undefined,
+    requesterAddress: req.query.requesterAddress as string | undefined,
+    recommendation: req.query.recommendation as string | undefined,
+    verdict: req.query.verdict as VerdictCode | undefined,
+    page,
+    limit
+  });
+
+  res.json({
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+    reports
+  });
+});
+
+// Get a stored report by request ID
+orchestratorRouter.get('/reports/:id', (req: Request, res: Response) => {
+  const report = reportStore.getReport(req.params.id);
+  if (!report) {
+    res.status(404).json({ error: 'Report not found' });
+    return;
+  }
+  res.json(report);
+});
+
 // Health check
 orchestratorRouter.get('/health', (_req: Request, res: Response) => {
   res.json({ 
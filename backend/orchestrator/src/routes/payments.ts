@@ -1,57 +1,81 @@
 import { Router, Request, Response } from 'express';
 import { PaymentDistribution } from '../types';
+import { paymentLedger } from '../services/paymentLedger';
+import { settlementService } from '../services/settlement';
+import { agentRegistry } from '../services/agentRegistry';
+import { reportStore } from '../services/reportStore';
+import { requireAdmin } from '../services/adminAuth';
 
 export const paymentsRouter = Router();
 
-// In-memory payment ledger (production: use database)
-const paymentLedger: Array<{
-  requestId: string;
-  distributions: PaymentDistribution[];
-  timestamp: string;
-  totalAmount: number;
-}> = [];
+// Normalise an optional ISO date query param; returns null when it is present but unparseable
+function parseDateParam(value: unknown): string | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  const time = Date.parse(String(value));
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
 
-// Distribute payments to agents
-paymentsRouter.post('/distribute', async (req: Request, res: Response) => {
+// Pay the agents that served a stored report, at the prices they won its auction with
+paymentsRouter.post('/distribute', requireAdmin, async (req: Request, res: Response) => {
   try {
-    const { requestId, distributions } = req.body as {
-      requestId: string;
-      distributions: PaymentDistribution[];
-    };
+    const { requestId } = req.body as { requestId?: string };
+    if (!requestId) {
+      res.status(400).json({ error: 'Missing requestId' });
+      return;
+    }
 
-    if (!requestId || !distributions || distributions.length === 0) {
-      res.status(400).json({ error: 'Missing requestId or distributions' });
+    const report = reportStore.getReport(requestId);
+    if (!report) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+    if (report.paidMode) {
+      res.status(409).json({ error: 'Report was paid for over x402; its agents were paid during dispatch' });
+      return;
+    }
+    if (!report.auction) {
+      res.status(409).json({ error: 'Report has no auction to take payout amounts from' });
       return;
     }
 
     const platformFee = Number(process.env.PLATFORM_FEE_PERCENT || 5) / 100;
     const processed: PaymentDistribution[] = [];
 
-    for (const dist of distributions) {
-      const netAmount = Math.round(dist.amount * (1 - platformFee));
-      
+    // Only agents whose response made it into the consensus are paid, and only if x402 has not paid them already
+    for (const response of report.consensus.responses) {
+      if (response.metadata?.paidViaX402) continue;
+      const bid = report.auction.selected.find(b => b.agentId === response.agentId);
+      if (!bid) continue;
+
       processed.push({
-        agentId: dist.agentId,
-        amount: netAmount,
-        txId: `sim_tx_${Date.now()}_${dist.agentId}`,
-        status: 'confirmed'
+        agentId: bid.agentId,
+        amount: Math.round(bid.price * (1 - platformFee)),
+        recipient: agentRegistry.getAgentById(bid.agentId)?.payoutAddress,
+        status: 'pending'
       });
     }
 
-    const totalAmount = processed.reduce((sum, p) => sum + p.amount, 0);
+    if (processed.length === 0) {
+      res.status(409).json({ error: 'No agent in this report is left to be paid' });
+      return;
+    }
+
+    // Replays of the same requestId never pay twice; they only re-broadcast distributions that failed
+    const { created, record } = paymentLedger.record(requestId, processed, platformFee * 100);
+    if (!created) {
+      const retried = await settlementService.retryFailed(requestId);
+      res.json({ success: true, duplicate: true, retried, ...paymentLedger.getByRequestId(requestId)! });
+      return;
+    }
 
-    const record = {
-      requestId,
-      distributions: processed,
-      timestamp: new Date().toISOString(),
-      totalAmount
-    };
-    paymentLedger.push(record);
+    // Broadcast now; confirmation is picked up later by the settlement poller
+    await settlementService.settle(requestId, record.distributions);
 
-    res.json({
+    res.status(202).json({
       success: true,
-      ...record,
-      platformFeePercent: platformFee * 100
+      duplicate: false,
+      settlementBackend: settlementService.getBackend().name,
+      ...paymentLedger.getByRequestId(requestId)!
     });
 
   } catch (error: any) {
@@ -60,17 +84,59 @@ paymentsRouter.post('/distribute', async (req: Request, res: Response) => {
   }
 });
 
-// Get payment history
-paymentsRouter.get('/history', (_req: Request, res: Response) => {
+// Get payment history (cursor-paginated, optional date range)
+paymentsRouter.get('/history', (req: Request, res: Response) => {
+  const from = parseDateParam(req.query.from);
+  const to = parseDateParam(req.query.to);
+  if (from === null || to === null) {
+    res.status(400).json({ error: 'Invalid date range: from/to must be ISO-8601 dates' });
+    return;
+  }
+
+  const limit = Math.min(200, Math.max(1, parseInt(String(req.query.limit || '50')) || 50));
+
+  try {
+    const { payments, nextCursor } = paymentLedger.history({
+      cursor: req.query.cursor ? String(req.query.cursor) : undefined,
+      from,
+      to,
+      limit
+    });
+    res.json({ count: payments.length, nextCursor, payments });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Per-agent payout totals (optional date range)
+paymentsRouter.get('/totals', (req: Request, res: Response) => {
+  const from = parseDateParam(req.query.from);
+  const to = parseDateParam(req.query.to);
+  if (from === null || to === null) {
+    res.status(400).json({ error: 'Invalid date range: from/to must be ISO-8601 dates' });
+    return;
+  }
+
+  const agents = paymentLedger.agentTotals({ from, to });
   res.json({
-    count: paymentLedger.length,
-    payments: paymentLedger.slice(-50)
+    agents,
+    totalAmount: agents.reduce((sum, a) => sum + a.totalAmount, 0)
   });
 });
 
+// Refund issued for a paid request that did not reach quorum
+paymentsRouter.get('/refunds/:requestId', (req: Request, res: Response) => {
+  const refund = paymentLedger.getRefund(req.params.requestId);
+  if (!refund) {
+    res.status(404).json({ error: 'Refund not found' });
+    return;
+  }
+  res.json(refund);
+});
+
 // Get payment by request ID
 paymentsRouter.get('/:requestId', (req: Request, res: Response) => {
-  const payment = paymentLedger.find(p => p.requestId === req.params.requestId);
+  const payment = paymentLedger.getByRequestId(req.params.requestId);
   if (!payment) {
     res.status(404).json({ error: 'Payment not found' });
     return;
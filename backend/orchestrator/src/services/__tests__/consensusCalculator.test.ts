@@ -0,0 +1,43 @@
+import { AgentResponse } from '../../types';
+
+process.env.DATABASE_PATH = ':memory:';
+
+import { consensusCalculator } from '../consensusCalculator';
+
+function response(agentId: string, score: number, riskLevel: AgentResponse['riskLevel']): AgentResponse {
+  return { agentId, agentName: agentId, score, analysis: '', riskLevel, flags: [], metadata: {}, executionTime: 0, confidence: 1 };
+}
+
+// One CRITICAL agent outvoted by three that see little risk
+const responses = [
+  response('security-x', 30, 'CRITICAL'),
+  response('data-x', 90, 'LOW'),
+  response('history-x', 85, 'LOW'),
+  response('price-x', 88, 'LOW')
+];
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('verdict rules per strategy', () => {
+  it.each(['mean', 'median', 'trimmed-mean'])('leaves a lone CRITICAL agent to the score under %s', strategy => {
+    const { verdict } = consensusCalculator.calculateConsensus(responses, strategy);
+    expect(verdict.rulesFired.map(r => r.id)).not.toContain('ANY_CRITICAL');
+    expect(verdict.rulesFired[0].id).toBe('SCORE_BAND');
+    expect(verdict.verdict).not.toBe('CRITICAL_RISK');
+  });
+
+  it.each(['veto-on-critical', 'worst-case'])('lets a lone CRITICAL agent decide under %s', strategy => {
+    const { verdict } = consensusCalculator.calculateConsensus(responses, strategy);
+    expect(verdict.rulesFired[0]).toMatchObject({ id: 'ANY_CRITICAL', verdict: 'CRITICAL_RISK', detail: 'CRITICAL reported by security-x' });
+    expect(verdict.verdict).toBe('CRITICAL_RISK');
+  });
+
+  it('gives mean and veto-on-critical different verdicts on the same responses', () => {
+    const mean = consensusCalculator.calculateConsensus(responses, 'mean');
+    const veto = consensusCalculator.calculateConsensus(responses, 'veto-on-critical');
+    expect(mean.verdict.verdict).toBe('MEDIUM_RISK');
+    expect(veto.verdict.verdict).toBe('CRITICAL_RISK');
+  });
+});
@@ -0,0 +1,81 @@
+import { AgentResponse } from '../../types';
+import {
+  meanStrategy,
+  medianStrategy,
+  trimmedMeanStrategy,
+  vetoStrategy,
+  weightedMean,
+  worstCaseStrategy
+} from '../consensusStrategies';
+
+function response(score: number, riskLevel: AgentResponse['riskLevel'] = 'LOW'): AgentResponse {
+  return { agentId: `agent-${score}`, agentName: `Agent${score}`, score, analysis: '', riskLevel, flags: [], metadata: {}, executionTime: 0 };
+}
+
+const equal = (n: number) => new Array(n).fill(1 / n);
+
+describe('weightedMean', () => {
+  it('weights each number by its share', () => {
+    expect(weightedMean([100, 0], [0.75, 0.25])).toBe(75);
+  });
+
+  it('falls back to the plain mean when every share is zero', () => {
+    expect(weightedMean([10, 20, 30], [0, 0, 0])).toBe(20);
+  });
+});
+
+describe('mean strategy', () => {
+  it('is the weighted mean of the scores', () => {
+    const responses = [response(90), response(60), response(30)];
+    expect(meanStrategy.aggregate(responses, equal(3))).toBeCloseTo(60);
+    expect(meanStrategy.aggregate(responses, [0.5, 0.25, 0.25])).toBeCloseTo(67.5);
+  });
+});
+
+describe('median strategy', () => {
+  it('ignores a single extreme score', () => {
+    const responses = [response(80), response(82), response(5)];
+    expect(medianStrategy.aggregate(responses, equal(3))).toBe(80);
+  });
+
+  it('follows the weight rather than the count', () => {
+    const responses = [response(20), response(70), response(90)];
+    expect(medianStrategy.aggregate(responses, [0.6, 0.2, 0.2])).toBe(20);
+  });
+});
+
+describe('trimmed-mean strategy', () => {
+  it('keeps every score below 4 agents', () => {
+    const responses = [response(0), response(50), response(100)];
+    expect(trimmedMeanStrategy.aggregate(responses, equal(3))).toBeCloseTo(50);
+  });
+
+  it('drops the lowest and highest score from 4 agents up', () => {
+    const responses = [response(0), response(60), response(70), response(100)];
+    expect(trimmedMeanStrategy.aggregate(responses, equal(4))).toBeCloseTo(65);
+  });
+
+  it('trims 20% from each side of larger groups', () => {
+    const scores = [0, 10, 50, 50, 50, 50, 50, 50, 90, 100];
+    expect(trimmedMeanStrategy.aggregate(scores.map(s => response(s)), equal(10))).toBeCloseTo(50);
+  });
+});
+
+describe('worst-case strategy', () => {
+  it('returns the lowest score whatever the weights', () => {
+    const responses = [response(90), response(15), response(70)];
+    expect(worstCaseStrategy.aggregate(responses, [0.9, 0.05, 0.05])).toBe(15);
+  });
+});
+
+describe('veto-on-critical strategy', () => {
+  it('is the weighted mean when no agent is CRITICAL', () => {
+    const responses = [response(80), response(40, 'HIGH')];
+    expect(vetoStrategy.aggregate(responses, equal(2))).toBeCloseTo(60);
+  });
+
+  it('takes the lowest CRITICAL score once any agent is CRITICAL', () => {
+    const responses = [response(95), response(35, 'CRITICAL'), response(20, 'CRITICAL'), response(10, 'HIGH')];
+    expect(vetoStrategy.aggregate(responses, equal(4))).toBe(20);
+  });
+});
@@ -0,0 +1,57 @@
+import { AgentResponse } from '../../types';
+import { detectOutliers } from '../outlierDetector';
+
+function response(agentName: string, score: number, riskLevel: AgentResponse['riskLevel'], flags: string[] = []): AgentResponse {
+  return { agentId: agentName.toLowerCase(), agentName, score, analysis: '', riskLevel, flags, metadata: {}, executionTime: 0 };
+}
+
+describe('detectOutliers', () => {
+  it('needs at least 3 responses to have a group', () => {
+    expect(detectOutliers([])).toEqual([]);
+    expect(detectOutliers([response('A', 95, 'LOW')])).toEqual([]);
+    expect(detectOutliers([response('A', 95, 'LOW'), response('B', 5, 'CRITICAL')])).toEqual([]);
+  });
+
+  it('flags nobody when every score is equal', () => {
+    const responses = ['A', 'B', 'C', 'D'].map(name => response(name, 70, 'MEDIUM'));
+    expect(detectOutliers(responses)).toEqual([]);
+  });
+
+  it('does not turn small differences in a tight group into outliers', () => {
+    // MAD here is 0.5; the floor of 5 keeps it from inflating every z-score
+    const responses = [response('A', 70, 'MEDIUM'), response('B', 71, 'MEDIUM'), response('C', 70, 'MEDIUM'), response('D', 85, 'LOW')];
+    expect(detectOutliers(responses)).toEqual([]);
+  });
+
+  it('flags a single divergent agent on score and risk level', () => {
+    const responses = [
+      response('SecurityAgent', 10, 'CRITICAL', ['Honeypot transfer guard']),
+      response('DataAgent', 80, 'LOW'),
+      response('SocialAgent', 82, 'LOW', ['Trending']),
+      response('PriceAgent', 78, 'LOW'),
+      response('HistoryAgent', 81, 'LOW')
+    ];
+
+    const outliers = detectOutliers(responses);
+    expect(outliers).toHaveLength(1);
+
+    const [outlier] = outliers;
+    expect(outlier.agentName).toBe('SecurityAgent');
+    expect(outlier.dimensions).toEqual(['score', 'riskLevel']);
+    expect(outlier.groupMedianScore).toBe(80);
+    expect(outlier.groupRiskLevel).toBe('LOW');
+    expect(outlier.robustZ).toBeCloseTo(0.6745 * (10 - 80) / 5, 2);
+    expect(outlier.flags).toEqual(['Honeypot transfer guard']);
+    expect(outlier.opposing.map(o => o.agentName)).toEqual(['DataAgent', 'SocialAgent', 'PriceAgent', 'HistoryAgent']);
+    expect(outlier.summary).toMatch(/^SecurityAgent says CRITICAL \(score 10\); DataAgent says LOW, /);
+  });
+
+  it('needs more than one risk level of distance to flag the level alone', () => {
+    const oneStep = [response('A', 60, 'MEDIUM'), response('B', 62, 'MEDIUM'), response('C', 61, 'HIGH')];
+    expect(detectOutliers(oneStep)).toEqual([]);
+
+    const twoSteps = [response('A', 60, 'LOW'), response('B', 62, 'LOW'), response('C', 61, 'HIGH')];
+    const outliers = detectOutliers(twoSteps);
+    expect(outliers.map(o => [o.agentName, o.dimensions])).toEqual([['C', ['riskLevel']]]);
+  });
+});
@@ -0,0 +1,112 @@
+import { PaymentDistribution } from '../../types';
+
+process.env.DATABASE_PATH = ':memory:';
+
+import { getDatabase } from '../database';
+import { paymentLedger } from '../paymentLedger';
+
+const distribution = (agentId: string, amount: number): PaymentDistribution => ({ agentId, amount, recipient: `ST${agentId}`, status: 'pending' });
+
+// Records one payment per day from 2026-01-01, oldest first
+function seed(count: number) {
+  for (let i = 0; i < count; i++) {
+    jest.setSystemTime(new Date(Date.UTC(2026, 0, 1 + i)));
+    paymentLedger.record(`req-${i}`, [distribution('security-001', 1000 + i)], 5);
+  }
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
+beforeEach(() => {
+  paymentLedger.getByRequestId('');
+  getDatabase().exec('DELETE FROM payment_distributions; DELETE FROM payments; DELETE FROM refunds;');
+});
+
+describe('record', () => {
+  it('stores the distributions and their total', () => {
+    const { created, record } = paymentLedger.record('req-a', [distribution('security-001', 600), distribution('data-001', 400)], 5);
+    expect(created).toBe(true);
+    expect(record.totalAmount).toBe(1000);
+    expect(record.platformFeePercent).toBe(5);
+    expect(record.distributions.map(d => [d.agentId, d.amount, d.status]).sort()).toEqual([
+      ['data-001', 400, 'pending'],
+      ['security-001', 600, 'pending']
+    ]);
+  });
+
+  it('is idempotent on requestId: a replay returns the original and writes nothing', () => {
+    const first = paymentLedger.record('req-a', [distribution('security-001', 600)], 5);
+    const replay = paymentLedger.record('req-a', [distribution('security-001', 999999), distribution('evil-001', 1)], 0);
+
+    expect(replay.created).toBe(false);
+    expect(replay.record).toEqual(first.record);
+    expect(paymentLedger.history({ limit: 10 }).payments).toHaveLength(1);
+    expect(paymentLedger.agentTotals().map(t => t.agentId)).toEqual(['security-001']);
+  });
+});
+
+describe('recordRefund', () => {
+  it('is idempotent on requestId like record', () => {
+    const first = paymentLedger.recordRefund('req-r', 'ST1PAYER', 483000, 'INSUFFICIENT_COVERAGE: test');
+    const replay = paymentLedger.recordRefund('req-r', 'ST1OTHER', 1, 'again');
+    expect(first.created).toBe(true);
+    expect(replay.created).toBe(false);
+    expect(replay.refund).toEqual(first.refund);
+  });
+});
+
+describe('history', () => {
+  it('pages newest first until nextCursor runs out', () => {
+    seed(5);
+
+    const first = paymentLedger.history({ limit: 2 });
+    expect(first.payments.map(p => p.requestId)).toEqual(['req-4', 'req-3']);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = paymentLedger.history({ limit: 2, cursor: first.nextCursor! });
+    expect(second.payments.map(p => p.requestId)).toEqual(['req-2', 'req-1']);
+
+    const last = paymentLedger.history({ limit: 2, cursor: second.nextCursor! });
+    expect(last.payments.map(p => p.requestId)).toEqual(['req-0']);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('returns no cursor when the page exactly fills the remaining rows', () => {
+    seed(4);
+    const page = paymentLedger.history({ limit: 4 });
+    expect(page.payments).toHaveLength(4);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('keeps pages stable when payments are recorded between requests', () => {
+    seed(3);
+    const first = paymentLedger.history({ limit: 2 });
+    paymentLedger.record('req-new', [distribution('data-001', 50)], 5);
+
+    const second = paymentLedger.history({ limit: 2, cursor: first.nextCursor! });
+    expect(second.payments.map(p => p.requestId)).toEqual(['req-0']);
+  });
+
+  it('combines the cursor with an inclusive date range', () => {
+    seed(5);
+    const range = { from: '2026-01-02T00:00:00.000Z', to: '2026-01-04T00:00:00.000Z' };
+
+    const first = paymentLedger.history({ limit: 2, ...range });
+    expect(first.payments.map(p => p.requestId)).toEqual(['req-3', 'req-2']);
+
+    const second = paymentLedger.history({ limit: 2, cursor: first.nextCursor!, ...range });
+    expect(second.payments.map(p => p.requestId)).toEqual(['req-1']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('rejects a cursor it did not issue', () => {
+    expect(() => paymentLedger.history({ limit: 2, cursor: 'not-a-cursor' })).toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,67 @@
+import { AgentBid, IntelligenceRequest } from '../../types';
+import { checkQuorum, resolveQuorum } from '../quorum';
+
+const request = (quorum?: IntelligenceRequest['quorum']): IntelligenceRequest => ({ query: 'q', budget: 100000, requesterAddress: 'ST1', quorum });
+
+const agent = (agentType: string): Pick<AgentBid, 'agentId' | 'agentName' | 'agentType'> =>
+  ({ agentId: `${agentType}-001`, agentName: `${agentType}Agent`, agentType });
+
+describe('resolveQuorum', () => {
+  const env = { ...process.env };
+  afterEach(() => { process.env = { ...env }; });
+
+  it('defaults to two agents and no required types', () => {
+    delete process.env.QUORUM_MIN_AGENTS;
+    delete process.env.QUORUM_REQUIRED_TYPES;
+    expect(resolveQuorum(request())).toEqual({ minAgents: 2, requiredTypes: [] });
+  });
+
+  it('reads the deployment rule from the environment', () => {
+    process.env.QUORUM_MIN_AGENTS = '3';
+    process.env.QUORUM_REQUIRED_TYPES = 'security, data';
+    expect(resolveQuorum(request())).toEqual({ minAgents: 3, requiredTypes: ['security', 'data'] });
+  });
+
+  it('lets a request tighten the rule but never relax it', () => {
+    process.env.QUORUM_MIN_AGENTS = '3';
+    process.env.QUORUM_REQUIRED_TYPES = 'security';
+    expect(resolveQuorum(request({ minAgents: 1, requiredTypes: [] }))).toEqual({ minAgents: 3, requiredTypes: ['security'] });
+    expect(resolveQuorum(request({ minAgents: 4, requiredTypes: ['price', 'security'] }))).toEqual({ minAgents: 4, requiredTypes: ['security', 'price'] });
+  });
+
+  it('never asks for fewer than one agent', () => {
+    process.env.QUORUM_MIN_AGENTS = '0';
+    expect(resolveQuorum(request()).minAgents).toBe(1);
+  });
+});
+
+describe('checkQuorum', () => {
+  const rule = { minAgents: 2, requiredTypes: ['security'] };
+
+  it('is met at exactly the minimum with every required type', () => {
+    const check = checkQuorum(rule, [agent('security'), agent('data')]);
+    expect(check.met).toBe(true);
+    expect(check.reasons).toEqual([]);
+    expect(check.coveredTypes).toEqual(['security', 'data']);
+  });
+
+  it('fails one agent short of the minimum', () => {
+    const check = checkQuorum(rule, [agent('security')]);
+    expect(check.met).toBe(false);
+    expect(check.reasons).toEqual(['Only 1 agent(s); quorum needs 2']);
+  });
+
+  it('fails when a required type is missing, however many agents answered', () => {
+    const check = checkQuorum(rule, [agent('data'), agent('price'), agent('social')]);
+    expect(check.met).toBe(false);
+    expect(check.missingTypes).toEqual(['security']);
+    expect(check.reasons).toEqual(['Missing required agent types: security']);
+  });
+
+  it('reports both reasons when both thresholds fail', () => {
+    const check = checkQuorum(rule, []);
+    expect(check.met).toBe(false);
+    expect(check.reasons).toHaveLength(2);
+    expect(check.agents).toEqual([]);
+  });
+});
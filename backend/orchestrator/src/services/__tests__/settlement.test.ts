@@ -0,0 +1,107 @@
+process.env.DATABASE_PATH = ':memory:';
+
+const nonces: bigint[] = [];
+let failNext = false;
+
+jest.mock('@stacks/transactions', () => ({
+  privateKeyToAddress: () => 'ST1ORCHESTRATOR',
+  fetchNonce: jest.fn(async () => 7n),
+  makeSTXTokenTransfer: jest.fn(async (options: { nonce: bigint }) => {
+    nonces.push(options.nonce);
+    return options;
+  }),
+  // Resolves on a later tick so concurrent broadcasts would interleave without the queue
+  broadcastTransaction: jest.fn(async ({ transaction }: { transaction: { nonce: bigint } }) => {
+    await new Promise(resolve => setImmediate(resolve));
+    if (failNext) {
+      failNext = false;
+      throw new Error('socket hang up');
+    }
+    return { txid: `0x${transaction.nonce}` };
+  })
+}));
+
+import { fetchNonce } from '@stacks/transactions';
+import { paymentLedger } from '../paymentLedger';
+import { SettlementBackend, settlementService, StacksSettlementBackend } from '../settlement';
+
+beforeAll(() => {
+  process.env.ORCHESTRATOR_PRIVATE_KEY = 'test-key';
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  nonces.length = 0;
+  failNext = false;
+  jest.mocked(fetchNonce).mockClear();
+});
+
+describe('StacksSettlementBackend.broadcast', () => {
+  it('gives concurrent broadcasts consecutive nonces', async () => {
+    const backend = new StacksSettlementBackend();
+    const txIds = await Promise.all([
+      backend.broadcast('ST1AGENT', 100, 'payout'),
+      backend.broadcast('ST2AGENT', 200, 'payout'),
+      backend.broadcast('ST1PAYER', 300, 'refund')
+    ]);
+
+    expect(nonces).toEqual([7n, 8n, 9n]);
+    expect(txIds).toEqual(['0x7', '0x8', '0x9']);
+    expect(fetchNonce).toHaveBeenCalledTimes(1);
+  });
+
+  it('resyncs the nonce after a failed broadcast and keeps serving the queue', async () => {
+    const backend = new StacksSettlementBackend();
+    failNext = true;
+    const [failed, next] = await Promise.allSettled([
+      backend.broadcast('ST1AGENT', 100, 'payout'),
+      backend.broadcast('ST2AGENT', 200, 'payout')
+    ]);
+
+    expect(failed.status).toBe('rejected');
+    expect(next).toEqual({ status: 'fulfilled', value: '0x7' });
+    expect(fetchNonce).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('settlementService.retryFailed', () => {
+  // Rejects broadcasts to the recipients in `down`
+  function flakyBackend(down: Set<string>): SettlementBackend & { sent: string[] } {
+    const sent: string[] = [];
+    return {
+      name: 'flaky',
+      sent,
+      async broadcast(recipient: string) {
+        if (down.has(recipient)) throw new Error('node unavailable');
+        sent.push(recipient);
+        return `0x${sent.length}`;
+      },
+      async getStatus() {
+        return 'pending';
+      }
+    };
+  }
+
+  it('re-broadcasts only the distributions that failed', async () => {
+    const down = new Set(['ST2AGENT']);
+    const backend = flakyBackend(down);
+    settlementService.setBackend(backend);
+
+    const { record } = paymentLedger.record('req-retry', [
+      { agentId: 'security-001', amount: 100, recipient: 'ST1AGENT', status: 'pending' },
+      { agentId: 'data-001', amount: 200, recipient: 'ST2AGENT', status: 'pending' }
+    ], 5);
+    await settlementService.settle('req-retry', record.distributions);
+    expect(paymentLedger.getByRequestId('req-retry')!.distributions.find(d => d.agentId === 'data-001')!.status).toBe('failed');
+
+    down.clear();
+    expect(await settlementService.retryFailed('req-retry')).toBe(1);
+    expect(backend.sent).toEqual(['ST1AGENT', 'ST2AGENT']);
+
+    const retried = paymentLedger.getByRequestId('req-retry')!.distributions.find(d => d.agentId === 'data-001')!;
+    expect(retried).toMatchObject({ status: 'pending', txId: '0x2' });
+    expect(retried.error).toBeUndefined();
+    expect(await settlementService.retryFailed('req-retry')).toBe(0);
+  });
+});
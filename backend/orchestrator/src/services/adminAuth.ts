@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Hash both sides so the comparison is constant-time whatever the key lengths
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Guards operator-only routes (agent registry edits, settlement) behind
+ * `Authorization: Bearer <ADMIN_API_KEY>`. With no key configured the routes
+ * stay closed rather than open.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(503).json({ error: 'ADMIN_API_KEY not set in .env - admin routes are disabled' });
+    return;
+  }
+
+  const supplied = /^Bearer (.+)$/.exec(req.header('authorization') || '')?.[1] || '';
+  if (!supplied || !timingSafeEqual(digest(supplied), digest(adminKey))) {
+    res.status(401).json({ error: 'Admin authorization required' });
+    return;
+  }
+  next();
+}
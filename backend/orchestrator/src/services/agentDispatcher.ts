@@ -0,0 +1,148 @@
+import axios from 'axios';
+import { AgentBid, AgentResponse, IntelligenceRequest, RequestEvent } from '../types';
+import { agentRegistry } from './agentRegistry';
+
+let paidAxios: ReturnType<typeof axios.create> | null = null;
+
+// Lazy-init the x402-wrapped axios client for production mode
+async function getPaidAxios() {
+  if (paidAxios) return paidAxios;
+  try {
+    const { wrapAxiosWithPayment, privateKeyToAccount } = await import('x402-stacks');
+
+    const privateKey = process.env.ORCHESTRATOR_PRIVATE_KEY;
+    if (!privateKey) {
+      throw new Error('ORCHESTRATOR_PRIVATE_KEY not set in .env - orchestrator cannot pay agents');
+    }
+
+    const account = privateKeyToAccount(privateKey, 'testnet');
+
+    paidAxios = wrapAxiosWithPayment(
+      axios.create({ timeout: 60000 }),
+      account
+    );
+    console.log(`💳 x402 payment client initialized | Orchestrator Address: ${account.address}`);
+    console.log(`💰 Fund this address at: https://explorer.stacks.co/sandbox/faucet?chain=testnet`);
+    return paidAxios;
+  } catch (err: any) {
+    console.error('⚠️ x402 payment client failed:', err.message);
+    console.log('📌 Falling back to free endpoints');
+    return axios;
+  }
+}
+
+// Decode the x402 payment proof an agent returns in its response headers
+function decodePaymentResponse(header: string | null, agentName: string): Record<string, any> | null {
+  if (!header) return null;
+  try {
+    const decoded = JSON.parse(Buffer.from(header, 'base64').toString());
+    console.log(`  ✅ ${agentName} paid: ${decoded.transaction.slice(0, 16)}...`);
+    return {
+      success: decoded.success,
+      payer: decoded.payer,
+      txHash: decoded.transaction,
+      network: decoded.network,
+      explorerUrl: `https://explorer.hiro.so/txid/${decoded.transaction}?chain=testnet`
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Calls every bidding agent in parallel and resolves with the responses that
+ * succeeded. Failed agents are dropped (and penalised in the registry).
+ * `onEvent` receives a progress event as each agent is dispatched, paid,
+ * completes or fails.
+ */
+export async function dispatchToAgents(
+  request: IntelligenceRequest,
+  bids: AgentBid[],
+  options: { paid: boolean; onEvent?: (event: RequestEvent) => void }
+): Promise<AgentResponse[]> {
+  const emit = options.onEvent || (() => {});
+
+  // Never commit to more than the requester authorised, whatever the caller selected
+  const committed = bids.reduce((sum, b) => sum + b.price, 0);
+  if (committed > request.budget) {
+    throw new Error(`Selected agents cost ${committed} microSTX, over the budget of ${request.budget}`);
+  }
+
+  const agentPromises = bids.map(async (bid) => {
+    const startTime = Date.now();
+    try {
+      let endpoint: string;
+      let client: any;
+
+      if (options.paid) {
+        // x402 REAL PAYMENT MODE: Call /analyze with x402 payment client
+        endpoint = `${bid.endpoint}/analyze`;
+        client = await getPaidAxios();
+        console.log(`💳 Paying ${bid.agentName} (${bid.price} microSTX) via x402 at ${endpoint}`);
+      } else {
+        // Free mode for testing without blockchain payments
+        endpoint = `${bid.endpoint}/analyze-free`;
+        client = axios;
+        console.log(`🆓 Using free endpoint for ${bid.agentName}`);
+      }
+
+      emit({ type: 'agent_dispatched', agentId: bid.agentId, agentName: bid.agentName, price: bid.price, timestamp: new Date().toISOString() });
+
+      const response = await client.post(
+        endpoint,
+        {
+          query: request.query,
+          tokenAddress: request.tokenAddress,
+          target: request.target,
+          priority: request.priority || 'medium'
+        },
+        { timeout: 60000 }
+      );
+
+      const executionTime = Date.now() - startTime;
+      agentRegistry.updateAgentReputation(bid.agentId, true, executionTime);
+
+      const payment = decodePaymentResponse(response.headers?.['payment-response'] || null, bid.agentName);
+      if (payment) {
+        emit({ type: 'agent_paid', agentId: bid.agentId, agentName: bid.agentName, payment, timestamp: new Date().toISOString() });
+      }
+
+      const agentResponse: AgentResponse = {
+        agentId: bid.agentId,
+        agentName: bid.agentName,
+        score: response.data.score,
+        analysis: response.data.analysis || response.data.summary,
+        riskLevel: response.data.riskLevel,
+        flags: response.data.flags || response.data.issues || [],
+        confidence: typeof response.data.confidence === 'number' ? response.data.confidence : undefined,
+        metadata: {
+          ...response.data.metadata,
+          price: bid.price,
+          paidViaX402: options.paid,
+          payment: payment
+        },
+        executionTime
+      };
+
+      emit({
+        type: 'agent_completed',
+        agentId: bid.agentId,
+        agentName: bid.agentName,
+        score: agentResponse.score,
+        riskLevel: agentResponse.riskLevel,
+        executionTime,
+        timestamp: new Date().toISOString()
+      });
+      return agentResponse;
+    } catch (error: any) {
+      const executionTime = Date.now() - startTime;
+      console.error(`❌ Agent ${bid.agentName} failed:`, error.message);
+      agentRegistry.updateAgentReputation(bid.agentId, false, executionTime);
+      emit({ type: 'agent_failed', agentId: bid.agentId, agentName: bid.agentName, error: error.message, executionTime, timestamp: new Date().toISOString() });
+      return null;
+    }
+  });
+
+  const results = await Promise.all(agentPromises);
+  return results.filter((r): r is AgentResponse => r !== null);
+}
@@ -1,10 +1,14 @@
-import { AgentBid } from '../types';
+import { getDatabase } from './database';
 
-interface RegisteredAgent {
+export const AGENT_TYPES = ['security', 'data', 'social', 'price', 'history'] as const;
+export type AgentType = typeof AGENT_TYPES[number];
+
+export interface RegisteredAgent {
   id: string;
   name: string;
-  type: 'security' | 'data' | 'social' | 'price' | 'history';
+  type: AgentType;
   endpoint: string;
+  payoutAddress?: string;
   basePrice: number;
   reputation: number;
   totalTasks: number;
@@ -15,11 +19,75 @@ interface RegisteredAgent {
 
 class AgentRegistry {
   private agents: Map<string, RegisteredAgent> = new Map();
+  private persistedLoaded = false;
 
   constructor() {
     this.initializeAgents();
   }
 
+  // Registrations and edits live in SQLite; loaded on first use so dotenv has set DATABASE_PATH
+  private loadPersistedAgents() {
+    if (this.persistedLoaded) return;
+    this.persistedLoaded = true;
+
+    const db = getDatabase();
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS agents (
+        id TEXT PRIMARY KEY,
+        agent_json TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS agent_stats (
+        id TEXT PRIMARY KEY,
+        reputation INTEGER NOT NULL,
+        total_tasks INTEGER NOT NULL,
+        success_rate REAL NOT NULL,
+        average_response_time REAL NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+
+    const rows = db.prepare('SELECT agent_json FROM agents').all() as Array<{ agent_json: string }>;
+    rows.forEach(row => {
+      const agent: RegisteredAgent = JSON.parse(row.agent_json);
+      this.agents.set(agent.id, agent);
+    });
+    if (rows.length > 0) console.log(`🗂️  Loaded ${rows.length} persisted agent registration(s)`);
+
+    // Task stats are kept apart from registrations so built-in agents keep their .env config
+    const stats = db.prepare('SELECT * FROM agent_stats').all() as Array<{
+      id: string; reputation: number; total_tasks: number; success_rate: number; average_response_time: number;
+    }>;
+    stats.forEach(row => {
+      const agent = this.agents.get(row.id);
+      if (!agent) return;
+      agent.reputation = row.reputation;
+      agent.totalTasks = row.total_tasks;
+      agent.successRate = row.success_rate;
+      agent.averageResponseTime = row.average_response_time;
+    });
+  }
+
+  private persist(agent: RegisteredAgent) {
+    getDatabase()
+      .prepare(`
+        INSERT INTO agents (id, agent_json, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET agent_json = excluded.agent_json, updated_at = excluded.updated_at
+      `)
+      .run(agent.id, JSON.stringify(agent), new Date().toISOString());
+  }
+
+  private persistStats(agent: RegisteredAgent) {
+    getDatabase()
+      .prepare(`
+        INSERT INTO agent_stats (id, reputation, total_tasks, success_rate, average_response_time, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          reputation = excluded.reputation, total_tasks = excluded.total_tasks, success_rate = excluded.success_rate,
+          average_response_time = excluded.average_response_time, updated_at = excluded.updated_at
+      `)
+      .run(agent.id, agent.reputation, agent.totalTasks, agent.successRate, agent.averageResponseTime, new Date().toISOString());
+  }
+
   private initializeAgents() {
     const agents: RegisteredAgent[] = [
       {
@@ -27,6 +95,7 @@ class AgentRegistry {
         name: 'SecurityAgent',
         type: 'security',
         endpoint: process.env.SECURITY_AGENT_URL || 'http://localhost:3002',
+        payoutAddress: process.env.SECURITY_AGENT_ADDRESS,
         basePrice: 100000,
         reputation: 95,
         totalTasks: 0,
@@ -39,6 +108,7 @@ class AgentRegistry {
         name: 'DataAgent',
         type: 'data',
         endpoint: process.env.DATA_AGENT_URL || 'http://localhost:3003',
+        payoutAddress: process.env.DATA_AGENT_ADDRESS,
         basePrice: 80000,
         reputation: 92,
         totalTasks: 0,
@@ -51,6 +121,7 @@ class AgentRegistry {
         name: 'SocialAgent',
         type: 'social',
         endpoint: process.env.SOCIAL_AGENT_URL || 'http://localhost:3004',
+        payoutAddress: process.env.SOCIAL_AGENT_ADDRESS,
         basePrice: 50000,
         reputation: 88,
         totalTasks: 0,
@@ -63,6 +134,7 @@ class AgentRegistry {
         name: 'PriceAgent',
         type: 'price',
         endpoint: process.env.PRICE_AGENT_URL || 'http://localhost:3005',
+        payoutAddress: process.env.PRICE_AGENT_ADDRESS,
         basePrice: 150000,
         reputation: 90,
         totalTasks: 0,
@@ -75,6 +147,7 @@ class AgentRegistry {
         name: 'HistoryAgent',
         type: 'history',
         endpoint: process.env.HISTORY_AGENT_URL || 'http://localhost:3006',
+        payoutAddress: process.env.HISTORY_AGENT_ADDRESS,
         basePrice: 80000,
         reputation: 93,
         totalTasks: 0,
@@ -88,15 +161,52 @@ class AgentRegistry {
   }
 
   getAllActiveAgents(): RegisteredAgent[] {
+    this.loadPersistedAgents();
     return Array.from(this.agents.values()).filter(agent => agent.active);
   }
 
   getAgentById(id: string): RegisteredAgent | undefined {
+    this.loadPersistedAgents();
     return this.agents.get(id);
   }
 
+  registerAgent(input: Pick<RegisteredAgent, 'id' | 'name' | 'type' | 'endpoint' | 'basePrice' | 'payoutAddress'>): RegisteredAgent {
+    this.loadPersistedAgents();
+    const agent: RegisteredAgent = {
+      ...input,
+      reputation: 80,
+      totalTasks: 0,
+      successRate: 1.0,
+      averageResponseTime: 3000,
+      active: true
+    };
+    this.agents.set(agent.id, agent);
+    this.persist(agent);
+    return agent;
+  }
+
+  updateAgent(id: string, changes: Partial<Pick<RegisteredAgent, 'name' | 'endpoint' | 'basePrice' | 'payoutAddress' | 'active'>>): RegisteredAgent | undefined {
+    const agent = this.getAgentById(id);
+    if (!agent) return undefined;
+
+    Object.assign(agent, changes);
+    this.persist(agent);
+    return agent;
+  }
+
+  /** Retired agents stay on record (for payment history) but no longer receive bids. */
+  retireAgent(id: string): RegisteredAgent | undefined {
+    const agent = this.getAgentById(id);
+    if (!agent) return undefined;
+
+    agent.active = false;
+    this.persist(agent);
+    return agent;
+  }
+
+  /** Folds one task outcome into the agent's stats; they survive restarts like registry edits do. */
   updateAgentReputation(id: string, success: boolean, responseTime: number) {
-    const agent = this.agents.get(id);
+    const agent = this.getAgentById(id);
     if (!agent) return;
 
     agent.totalTasks++;
@@ -106,20 +216,7 @@ class AgentRegistry {
     
     agent.averageResponseTime = 
       (agent.averageResponseTime * (agent.totalTasks - 1) + responseTime) / agent.totalTasks;
-  }
-
-  getAgentBids(budget: number): AgentBid[] {
-    return this.getAllActiveAgents()
-      .filter(agent => agent.basePrice <= budget)
-      .map(agent => ({
-        agentId: agent.id,
-        agentName: agent.name,
-        endpoint: agent.endpoint,
-        price: agent.basePrice,
-        estimatedTime: agent.averageResponseTime,
-        confidence: agent.reputation
-      }))
-      .sort((a, b) => b.confidence - a.confidence);
+    this.persistStats(agent);
   }
 }
 
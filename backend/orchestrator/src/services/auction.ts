@@ -0,0 +1,177 @@
+import axios from 'axios';
+import { AgentBid, AuctionDrop, AuctionResult, AuctionSelection, IntelligenceRequest } from '../types';
+import { agentRegistry, AGENT_TYPES, RegisteredAgent } from './agentRegistry';
+import { resolveQuorum } from './quorum';
+
+// Above this many candidate combinations the exact search gives way to a greedy pick
+const MAX_EXACT_COMBINATIONS = 50000;
+
+// Ask an agent for a quote; agents without a /bid endpoint fall back to their registered list price
+async function requestQuote(agent: RegisteredAgent, request: IntelligenceRequest): Promise<AgentBid> {
+  const listPrice: AgentBid = {
+    agentId: agent.id,
+    agentName: agent.name,
+    agentType: agent.type,
+    endpoint: agent.endpoint,
+    price: agent.basePrice,
+    estimatedTime: agent.averageResponseTime,
+    confidence: agent.reputation,
+    quoteSource: 'list-price'
+  };
+
+  try {
+    const response = await axios.post(
+      `${agent.endpoint}/bid`,
+      { query: request.query, tokenAddress: request.tokenAddress, budget: request.budget },
+      { timeout: 5000 }
+    );
+    const price = Number(response.data?.price);
+    if (!Number.isInteger(price) || price <= 0) return listPrice;
+
+    return {
+      ...listPrice,
+      price,
+      estimatedTime: Number(response.data?.estimatedTime) || listPrice.estimatedTime,
+      quoteSource: 'bid'
+    };
+  } catch {
+    return listPrice;
+  }
+}
+
+const valueOf = (bid: AgentBid) => bid.confidence / bid.price;
+
+/**
+ * Picks at most one bid per required type so that the set covers as many
+ * types as possible within budget; among equally covering sets the one with
+ * the highest reputation per microSTX wins. Sets covering more of the
+ * quorum's `mustHave` types beat any set covering fewer.
+ */
+function selectBids(bids: AgentBid[], requiredTypes: string[], mustHave: string[], budget: number): AgentBid[] {
+  const candidates = requiredTypes.map(type =>
+    bids.filter(b => b.agentType === type && b.price <= budget).sort((a, b) => valueOf(b) - valueOf(a))
+  );
+
+  const combinations = candidates.reduce((n, c) => n * (c.length + 1), 1);
+  if (combinations > MAX_EXACT_COMBINATIONS) {
+    // Greedy: best-value bid per type, quorum types then cheapest types first, while it still fits
+    const picks: AgentBid[] = [];
+    let spent = 0;
+    const isMustHave = (c: AgentBid[]) => (mustHave.includes(c[0].agentType) ? 0 : 1);
+    candidates
+      .filter(c => c.length > 0)
+      .sort((a, b) => isMustHave(a) - isMustHave(b) || a[0].price - b[0].price)
+      .forEach(c => {
+        const pick = c.find(b => spent + b.price <= budget);
+        if (pick) {
+          picks.push(pick);
+          spent += pick.price;
+        }
+      });
+    return picks;
+  }
+
+  let best: AgentBid[] = [];
+  let bestMustHave = -1;
+  let bestValue = -1;
+
+  const search = (typeIndex: number, chosen: AgentBid[], spent: number) => {
+    if (typeIndex === candidates.length) {
+      const covered = chosen.filter(b => mustHave.includes(b.agentType)).length;
+      const reputation = chosen.reduce((sum, b) => sum + b.confidence, 0);
+      const value = spent > 0 ? reputation / spent : 0;
+      const better = covered !== bestMustHave
+        ? covered > bestMustHave
+        : chosen.length !== best.length ? chosen.length > best.length : value > bestValue;
+      if (better) {
+        best = [...chosen];
+        bestMustHave = covered;
+        bestValue = value;
+      }
+      return;
+    }
+
+    candidates[typeIndex].forEach(bid => {
+      if (spent + bid.price <= budget) {
+        chosen.push(bid);
+        search(typeIndex + 1, chosen, spent + bid.price);
+        chosen.pop();
+      }
+    });
+    search(typeIndex + 1, chosen, spent);
+  };
+  search(0, [], 0);
+
+  return best;
+}
+
+function explainSelection(bid: AgentBid, bids: AgentBid[]): string {
+  const rivals = bids.filter(b => b.agentType === bid.agentType && b.agentId !== bid.agentId);
+  const density = `${(valueOf(bid) * 1000).toFixed(3)} rep per 1k microSTX`;
+
+  if (rivals.length === 0) {
+    return `Only ${bid.agentType} quote (${bid.confidence} rep at ${bid.price} microSTX, ${density})`;
+  }
+  if (rivals.every(r => valueOf(r) <= valueOf(bid))) {
+    return `Best ${bid.agentType} value of ${rivals.length + 1} quotes (${density})`;
+  }
+  return `Chosen over higher-value ${bid.agentType} quotes to keep the set within budget (${density})`;
+}
+
+function explainDrop(bid: AgentBid, selected: AgentBid[], totalPrice: number, budget: number): AuctionDrop {
+  const drop = { agentId: bid.agentId, agentName: bid.agentName, agentType: bid.agentType, price: bid.price };
+
+  const winner = selected.find(b => b.agentType === bid.agentType);
+  if (winner) {
+    return { ...drop, reason: 'outbid', detail: `${winner.agentName} chosen for ${bid.agentType} at ${winner.price} microSTX` };
+  }
+  if (bid.price > budget) {
+    return { ...drop, reason: 'over-budget', detail: `Quote of ${bid.price} microSTX exceeds the whole budget of ${budget}` };
+  }
+  return {
+    ...drop,
+    reason: 'over-budget',
+    detail: `Adding ${bid.price} microSTX would bring the total to ${totalPrice + bid.price}, over the budget of ${budget}`
+  };
+}
+
+export async function runAuction(request: IntelligenceRequest): Promise<AuctionResult> {
+  // Types the quorum insists on are always bid for, even if the request left them out
+  const mustHave = resolveQuorum(request).requiredTypes;
+  const requiredTypes = request.requiredTypes && request.requiredTypes.length > 0
+    ? [...new Set([...request.requiredTypes, ...mustHave])]
+    : [...AGENT_TYPES];
+
+  const agents = agentRegistry.getAllActiveAgents().filter(a => requiredTypes.includes(a.type));
+  const bids = await Promise.all(agents.map(agent => requestQuote(agent, request)));
+
+  const selected = selectBids(bids, requiredTypes, mustHave, request.budget)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const selections: AuctionSelection[] = selected.map(bid => ({
+    agentId: bid.agentId,
+    agentName: bid.agentName,
+    agentType: bid.agentType,
+    price: bid.price,
+    reason: explainSelection(bid, bids)
+  }));
+
+  const coveredTypes = new Set(selected.map(b => b.agentType));
+  const totalPrice = selected.reduce((sum, b) => sum + b.price, 0);
+  const dropped = bids
+    .filter(bid => !selected.includes(bid))
+    .map(bid => explainDrop(bid, selected, totalPrice, request.budget));
+
+  console.log(`🔨 Auction: ${bids.length} quotes | ${selected.length} selected | ${dropped.length} dropped | ${totalPrice}/${request.budget} microSTX`);
+
+  return {
+    bids,
+    selected,
+    selections,
+    dropped,
+    requiredTypes,
+    uncoveredTypes: requiredTypes.filter(t => !coveredTypes.has(t)),
+    totalPrice,
+    budget: request.budget
+  };
+}
@@ -1,19 +1,97 @@
-import { AgentResponse, ConsensusResult } from '../types';
+import { AgentResponse, AgentWeight, ConsensusResult, Verdict, VerdictCode, VerdictRule, VerdictThresholds } from '../types';
+import { agentRegistry } from './agentRegistry';
+import { BUILT_IN_STRATEGIES, ConsensusStrategy, weightedMean } from './consensusStrategies';
+import { detectOutliers } from './outlierDetector';
+
+// How much each kind of evidence counts before reputation and confidence; override with CONSENSUS_TYPE_WEIGHTS
+const DEFAULT_TYPE_WEIGHTS: Record<string, number> = {
+  security: 1.5,
+  data: 1.0,
+  history: 1.0,
+  price: 0.8,
+  social: 0.5
+};
+
+// Assumed for agents that do not report their own confidence
+const DEFAULT_CONFIDENCE = 0.5;
+
+export const DEFAULT_STRATEGY = 'mean';
+
+// Variance of scores split evenly between 0 and 100 - the widest disagreement possible
+const MAX_VARIANCE = 2500;
+
+// Score bands: >= low is LOW_RISK, >= medium MEDIUM_RISK, >= high HIGH_RISK, below that CRITICAL_RISK
+export const VERDICT_THRESHOLDS: VerdictThresholds = {
+  low: 80,
+  medium: 60,
+  high: 40,
+  majorityHighFraction: 0.5
+};
+
+const BAND_LABELS: Record<VerdictCode, string> = {
+  LOW_RISK: 'LOW RISK - APPEARS SAFE',
+  MEDIUM_RISK: 'MEDIUM RISK - EXERCISE CAUTION',
+  HIGH_RISK: 'HIGH RISK - NOT RECOMMENDED',
+  CRITICAL_RISK: 'CRITICAL RISK - AVOID COMPLETELY'
+};
+
+const RULE_LABELS: Record<Exclude<VerdictRule['id'], 'SCORE_BAND'>, string> = {
+  ANY_CRITICAL: 'CRITICAL RISK - AVOID COMPLETELY',
+  MAJORITY_HIGH: 'HIGH RISK - DO NOT RECOMMEND'
+};
 
 export class ConsensusCalculator {
-  calculateConsensus(responses: AgentResponse[]): ConsensusResult {
+  private typeWeights: Record<string, number>;
+  private strategies: Map<string, ConsensusStrategy> = new Map();
+
+  constructor() {
+    BUILT_IN_STRATEGIES.forEach(strategy => this.registerStrategy(strategy));
+
+    this.typeWeights = { ...DEFAULT_TYPE_WEIGHTS };
+    if (process.env.CONSENSUS_TYPE_WEIGHTS) {
+      try {
+        Object.assign(this.typeWeights, JSON.parse(process.env.CONSENSUS_TYPE_WEIGHTS));
+      } catch {
+        console.error('⚠️ CONSENSUS_TYPE_WEIGHTS is not valid JSON - using default type weights');
+      }
+    }
+  }
+
+  registerStrategy(strategy: ConsensusStrategy) {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  hasStrategy(name: string): boolean {
+    return this.strategies.has(name);
+  }
+
+  listStrategies(): Array<{ name: string; description: string }> {
+    return [...this.strategies.values()].map(s => ({ name: s.name, description: s.description }));
+  }
+
+  calculateConsensus(responses: AgentResponse[], strategyName: string = DEFAULT_STRATEGY): ConsensusResult {
     if (responses.length === 0) {
       throw new Error('No responses to calculate consensus');
     }
 
-    const averageScore = responses.reduce((sum, r) => sum + r.score, 0) / responses.length;
+    const strategy = this.strategies.get(strategyName);
+    if (!strategy) {
+      throw new Error(`Unknown consensus strategy: ${strategyName}`);
+    }
 
+    const weights = this.calculateWeights(responses);
     const scores = responses.map(r => r.score);
-    const variance = this.calculateVariance(scores);
-    const maxVariance = 2500;
-    const consensusStrength = Math.max(0, 1 - (variance / maxVariance));
+    const shares = weights.map(w => w.share);
+
+    const averageScore = strategy.aggregate(responses, shares);
+    const unweightedScore = scores.reduce((sum, n) => sum + n, 0) / scores.length;
+
+    const variance = this.calculateVariance(scores, shares);
+    const consensusStrength = Math.max(0, 1 - (variance / MAX_VARIANCE));
+    const outliers = detectOutliers(responses);
+    outliers.forEach(o => console.log(`⚖️ Outlier: ${o.summary}`));
 
-    const recommendation = this.determineRecommendation(responses, averageScore);
+    const verdict = this.determineVerdict(responses, Math.round(averageScore), strategy);
 
     const confidence = Math.round(
       consensusStrength * 100 * (Math.min(responses.length, 5) / 5)
@@ -25,42 +103,99 @@ export class ConsensusCalculator {
     }, 0);
 
     return {
+      strategy: strategy.name,
       averageScore: Math.round(averageScore),
+      unweightedScore: Math.round(unweightedScore),
       consensusStrength: Math.round(consensusStrength * 100) / 100,
-      recommendation,
+      verdict,
+      recommendation: verdict.label,
       confidence,
       totalCost,
+      weights,
+      outliers,
       responses
     };
   }
 
-  private calculateVariance(numbers: number[]): number {
-    const mean = numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+  /**
+   * weight = type weight × registry reputation (0-1) × the response's own confidence.
+   * `share` is the weight normalised across responses; equal shares if every weight is zero.
+   */
+  private calculateWeights(responses: AgentResponse[]): AgentWeight[] {
+    const raw = responses.map(r => {
+      const agent = agentRegistry.getAgentById(r.agentId);
+      const agentType = agent?.type || 'unknown';
+      const typeWeight = this.typeWeights[agentType] ?? 1;
+      const reputation = agent?.reputation ?? 50;
+      const confidence = Math.min(1, Math.max(0, r.confidence ?? DEFAULT_CONFIDENCE));
+      return {
+        agentId: r.agentId,
+        agentName: r.agentName,
+        agentType,
+        typeWeight,
+        reputation,
+        confidence,
+        weight: typeWeight * (reputation / 100) * confidence
+      };
+    });
+
+    const total = raw.reduce((sum, w) => sum + w.weight, 0);
+    return raw.map(w => ({
+      ...w,
+      weight: Math.round(w.weight * 1000) / 1000,
+      share: Math.round((total > 0 ? w.weight / total : 1 / raw.length) * 1000) / 1000
+    }));
+  }
+
+  private calculateVariance(numbers: number[], shares: number[]): number {
+    const mean = weightedMean(numbers, shares);
     const squaredDiffs = numbers.map(n => Math.pow(n - mean, 2));
-    return squaredDiffs.reduce((sum, d) => sum + d, 0) / numbers.length;
+    return weightedMean(squaredDiffs, shares);
   }
 
-  private determineRecommendation(responses: AgentResponse[], avgScore: number): string {
-    const criticalCount = responses.filter(r => r.riskLevel === 'CRITICAL').length;
-    const highCount = responses.filter(r => r.riskLevel === 'HIGH').length;
+  /**
+   * Evaluates every verdict rule in precedence order (any CRITICAL agent, a
+   * HIGH majority, then the score band). The first rule that fires decides;
+   * the rest are kept so consumers can see everything that held. The CRITICAL
+   * veto only applies under strategies that opt into it, so the others let the
+   * aggregated score speak.
+   */
+  private determineVerdict(responses: AgentResponse[], score: number, strategy: ConsensusStrategy): Verdict {
+    const t = VERDICT_THRESHOLDS;
+    const rulesFired: VerdictRule[] = [];
 
-    if (criticalCount > 0) {
-      return 'CRITICAL RISK - AVOID COMPLETELY';
+    const critical = responses.filter(r => r.riskLevel === 'CRITICAL');
+    if (strategy.vetoOnCritical && critical.length > 0) {
+      rulesFired.push({
+        id: 'ANY_CRITICAL',
+        verdict: 'CRITICAL_RISK',
+        detail: `CRITICAL reported by ${critical.map(r => r.agentName).join(', ')}`
+      });
     }
 
-    if (highCount >= responses.length / 2) {
-      return 'HIGH RISK - DO NOT RECOMMEND';
+    const high = responses.filter(r => r.riskLevel === 'HIGH');
+    if (high.length >= responses.length * t.majorityHighFraction) {
+      rulesFired.push({
+        id: 'MAJORITY_HIGH',
+        verdict: 'HIGH_RISK',
+        detail: `${high.length} of ${responses.length} agents reported HIGH`
+      });
     }
 
-    if (avgScore >= 80) {
-      return 'LOW RISK - APPEARS SAFE';
-    } else if (avgScore >= 60) {
-      return 'MEDIUM RISK - EXERCISE CAUTION';
-    } else if (avgScore >= 40) {
-      return 'HIGH RISK - NOT RECOMMENDED';
-    } else {
-      return 'CRITICAL RISK - AVOID COMPLETELY';
-    }
+    const band: VerdictCode = score >= t.low ? 'LOW_RISK'
+      : score >= t.medium ? 'MEDIUM_RISK'
+      : score >= t.high ? 'HIGH_RISK'
+      : 'CRITICAL_RISK';
+    rulesFired.push({ id: 'SCORE_BAND', verdict: band, detail: `Score ${score} falls in the ${band} band` });
+
+    const decisive = rulesFired[0];
+    return {
+      verdict: decisive.verdict,
+      label: decisive.id === 'SCORE_BAND' ? BAND_LABELS[decisive.verdict] : RULE_LABELS[decisive.id],
+      score,
+      thresholds: t,
+      rulesFired
+    };
   }
 }
 
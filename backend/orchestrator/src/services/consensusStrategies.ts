@@ -0,0 +1,78 @@
+import { AgentResponse } from '../types';
+
+export interface ConsensusStrategy {
+  name: string;
+  description: string;
+  /**
+   * Reduces the responses to one 0-100 score. `shares` are the per-response
+   * weights from the calculator and sum to ~1.
+   */
+  aggregate(responses: AgentResponse[], shares: number[]): number;
+  /** Whether a single CRITICAL agent decides the verdict (the ANY_CRITICAL rule). */
+  vetoOnCritical?: boolean;
+}
+
+export function weightedMean(numbers: number[], shares: number[]): number {
+  const totalShare = shares.reduce((sum, s) => sum + s, 0);
+  if (totalShare === 0) return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+  return numbers.reduce((sum, n, i) => sum + n * shares[i], 0) / totalShare;
+}
+
+// Smallest score at which the sorted shares reach half of the total weight
+function weightedMedian(numbers: number[], shares: number[]): number {
+  const sorted = numbers.map((n, i) => ({ n, share: shares[i] })).sort((a, b) => a.n - b.n);
+  const half = sorted.reduce((sum, s) => sum + s.share, 0) / 2;
+  let running = 0;
+  for (const entry of sorted) {
+    running += entry.share;
+    if (running >= half) return entry.n;
+  }
+  return sorted[sorted.length - 1].n;
+}
+
+const TRIM_FRACTION = 0.2;
+
+export const meanStrategy: ConsensusStrategy = {
+  name: 'mean',
+  description: 'Weighted mean of all scores',
+  aggregate: (responses, shares) => weightedMean(responses.map(r => r.score), shares)
+};
+
+export const medianStrategy: ConsensusStrategy = {
+  name: 'median',
+  description: 'Weighted median score; a single extreme agent cannot move it',
+  aggregate: (responses, shares) => weightedMedian(responses.map(r => r.score), shares)
+};
+
+export const trimmedMeanStrategy: ConsensusStrategy = {
+  name: 'trimmed-mean',
+  description: `Weighted mean after dropping the lowest and highest ${TRIM_FRACTION * 100}% of scores (by count, at least one each side once there are 4+ agents)`,
+  aggregate: (responses, shares) => {
+    const sorted = responses.map((r, i) => ({ n: r.score, share: shares[i] })).sort((a, b) => a.n - b.n);
+    const trim = sorted.length >= 4 ? Math.max(1, Math.floor(sorted.length * TRIM_FRACTION)) : 0;
+    const kept = sorted.slice(trim, sorted.length - trim);
+    return weightedMean(kept.map(k => k.n), kept.map(k => k.share));
+  }
+};
+
+export const worstCaseStrategy: ConsensusStrategy = {
+  name: 'worst-case',
+  description: 'Lowest score reported by any agent; any CRITICAL agent makes the verdict CRITICAL',
+  vetoOnCritical: true,
+  aggregate: responses => Math.min(...responses.map(r => r.score))
+};
+
+export const vetoStrategy: ConsensusStrategy = {
+  name: 'veto-on-critical',
+  description: 'Weighted mean, but any CRITICAL verdict replaces it with the lowest CRITICAL agent\'s score and makes the verdict CRITICAL',
+  vetoOnCritical: true,
+  aggregate: (responses, shares) => {
+    const critical = responses.filter(r => r.riskLevel === 'CRITICAL');
+    if (critical.length === 0) {
+      return weightedMean(responses.map(r => r.score), shares);
+    }
+    return Math.min(...critical.map(r => r.score));
+  }
+};
+
+export const BUILT_IN_STRATEGIES = [meanStrategy, medianStrategy, trimmedMeanStrategy, worstCaseStrategy, vetoStrategy];
@@ -0,0 +1,30 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+let db: Database.Database | null = null;
+
+// Lazy-open the embedded SQLite database so dotenv has loaded DATABASE_PATH first
+export function getDatabase(): Database.Database {
+  if (db) return db;
+
+  const dbPath = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'agentswarm.db');
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+
+  db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  console.log(`🗄️  Database opened at ${dbPath}`);
+  return db;
+}
+
+// Adds a column to a table created by an earlier release; CREATE TABLE IF NOT EXISTS will not.
+// Returns true when the column was added, so callers can backfill it.
+export function ensureColumn(table: string, column: string, definition: string): boolean {
+  const columns = getDatabase().prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (columns.some(c => c.name === column)) return false;
+  getDatabase().exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
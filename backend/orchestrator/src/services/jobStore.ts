@@ -0,0 +1,142 @@
+import { getDatabase } from './database';
+import { IntelligenceRequest, Job, PartialAgentResult, RequestEvent } from '../types';
+
+interface JobRow {
+  id: string;
+  status: Job['status'];
+  request_json: string;
+  partial_json: string;
+  error: string | null;
+  callback_url: string | null;
+  callback_status: 'pending' | 'delivered' | 'failed' | null;
+  callback_attempts: number;
+  callback_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+class JobStore {
+  private initialized = false;
+
+  private init() {
+    if (this.initialized) return;
+    const db = getDatabase();
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        request_json TEXT NOT NULL,
+        partial_json TEXT NOT NULL DEFAULT '[]',
+        error TEXT,
+        callback_url TEXT,
+        callback_status TEXT,
+        callback_attempts INTEGER NOT NULL DEFAULT 0,
+        callback_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+
+    // Jobs run in-process, so anything still running when we start was cut off by a restart
+    db.prepare(`
+      UPDATE jobs SET status = 'failed', error = 'Interrupted by orchestrator restart', updated_at = ?
+      WHERE status IN ('queued', 'running')
+    `).run(new Date().toISOString());
+
+    this.initialized = true;
+  }
+
+  create(id: string, request: IntelligenceRequest): Job {
+    this.init();
+    const now = new Date().toISOString();
+    getDatabase()
+      .prepare(`
+        INSERT INTO jobs (id, status, request_json, callback_url, callback_status, created_at, updated_at)
+        VALUES (?, 'queued', ?, ?, ?, ?, ?)
+      `)
+      .run(id, JSON.stringify(request), request.callbackUrl || null, request.callbackUrl ? 'pending' : null, now, now);
+    return this.get(id)!;
+  }
+
+  get(id: string): Job | undefined {
+    this.init();
+    const row = getDatabase().prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+    if (!row) return undefined;
+
+    return {
+      id: row.id,
+      status: row.status,
+      request: JSON.parse(row.request_json),
+      partialResults: JSON.parse(row.partial_json),
+      error: row.error,
+      callback: row.callback_url
+        ? {
+            url: row.callback_url,
+            status: row.callback_status || 'pending',
+            attempts: row.callback_attempts,
+            lastError: row.callback_error
+          }
+        : null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /** Folds a run progress event into the job's status and partial results. */
+  applyEvent(id: string, event: RequestEvent) {
+    const job = this.get(id);
+    if (!job) return;
+
+    let status = job.status;
+    let error = job.error;
+    const partialResults: PartialAgentResult[] = job.partialResults;
+
+    switch (event.type) {
+      case 'agent_dispatched':
+        status = 'running';
+        break;
+      case 'agent_completed':
+        partialResults.push({
+          agentId: event.agentId,
+          agentName: event.agentName,
+          status: 'completed',
+          score: event.score,
+          riskLevel: event.riskLevel,
+          executionTime: event.executionTime
+        });
+        break;
+      case 'agent_failed':
+        partialResults.push({
+          agentId: event.agentId,
+          agentName: event.agentName,
+          status: 'failed',
+          error: event.error,
+          executionTime: event.executionTime
+        });
+        break;
+      case 'complete':
+        status = 'completed';
+        break;
+      case 'request_failed':
+        status = 'failed';
+        error = event.error;
+        break;
+      default:
+        return;
+    }
+
+    getDatabase()
+      .prepare('UPDATE jobs SET status = ?, partial_json = ?, error = ?, updated_at = ? WHERE id = ?')
+      .run(status, JSON.stringify(partialResults), error, new Date().toISOString(), id);
+  }
+
+  recordCallback(id: string, result: { delivered: boolean; attempts: number; error?: string }) {
+    this.init();
+    getDatabase()
+      .prepare('UPDATE jobs SET callback_status = ?, callback_attempts = ?, callback_error = ?, updated_at = ? WHERE id = ?')
+      .run(result.delivered ? 'delivered' : 'failed', result.attempts, result.error || null, new Date().toISOString(), id);
+  }
+}
+
+export const jobStore = new JobStore();
@@ -0,0 +1,83 @@
+import { AgentResponse, ConsensusOutlier } from '../types';
+
+const RISK_ORDER: AgentResponse['riskLevel'][] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+// Modified z-score cut-off from Iglewicz & Hoaglin; 0.6745 scales MAD to a normal sigma
+const SCORE_Z_THRESHOLD = 3.5;
+const MAD_SCALE = 0.6745;
+
+// Floor on MAD so that a tight group does not turn every small difference into an outlier
+const MIN_SCORE_MAD = 5;
+
+// Below this many responses there is no meaningful "group" to diverge from
+const MIN_RESPONSES = 3;
+
+function median(numbers: number[]): number {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function medianAbsoluteDeviation(numbers: number[], center: number): number {
+  return median(numbers.map(n => Math.abs(n - center)));
+}
+
+/**
+ * Flags responses whose score or risk level sits far from the group, using the
+ * median absolute deviation so one wild agent cannot drag the baseline with it.
+ * Each outlier carries the agents on the other side of the group and their flags.
+ */
+export function detectOutliers(responses: AgentResponse[]): ConsensusOutlier[] {
+  if (responses.length < MIN_RESPONSES) return [];
+
+  const scores = responses.map(r => r.score);
+  const scoreMedian = median(scores);
+  const scoreMad = Math.max(MIN_SCORE_MAD, medianAbsoluteDeviation(scores, scoreMedian));
+
+  const levels = responses.map(r => RISK_ORDER.indexOf(r.riskLevel));
+  const levelMedian = median(levels);
+  const levelMad = medianAbsoluteDeviation(levels, levelMedian);
+  const groupRiskLevel = RISK_ORDER[Math.round(levelMedian)];
+
+  const flagged = responses
+    .map((r, i) => {
+      const robustZ = MAD_SCALE * (r.score - scoreMedian) / scoreMad;
+      const levelDistance = Math.abs(levels[i] - levelMedian);
+      const dimensions: ConsensusOutlier['dimensions'] = [];
+      if (Math.abs(robustZ) > SCORE_Z_THRESHOLD) dimensions.push('score');
+      // Risk levels are only four steps apart: more than one level and more than 2 MADs from the median
+      if (levelDistance > Math.max(1, 2 * levelMad)) dimensions.push('riskLevel');
+      return { response: r, level: levels[i], robustZ, dimensions };
+    })
+    .filter(o => o.dimensions.length > 0);
+
+  const outlierIds = new Set(flagged.map(o => o.response.agentId));
+
+  return flagged.map(({ response, level, robustZ, dimensions }) => {
+    const saysSafer = response.score > scoreMedian || level < levelMedian;
+    const opposing = responses
+      .filter(r => !outlierIds.has(r.agentId))
+      .filter(r => saysSafer
+        ? r.score <= scoreMedian || RISK_ORDER.indexOf(r.riskLevel) > level
+        : r.score >= scoreMedian || RISK_ORDER.indexOf(r.riskLevel) < level)
+      .map(r => ({ agentId: r.agentId, agentName: r.agentName, score: r.score, riskLevel: r.riskLevel, flags: r.flags }));
+
+    const others = opposing.length > 0
+      ? opposing.map(o => `${o.agentName} says ${o.riskLevel}`).join(', ')
+      : `the group says ${groupRiskLevel}`;
+
+    return {
+      agentId: response.agentId,
+      agentName: response.agentName,
+      score: response.score,
+      riskLevel: response.riskLevel,
+      dimensions,
+      robustZ: Math.round(robustZ * 100) / 100,
+      groupMedianScore: scoreMedian,
+      groupRiskLevel,
+      summary: `${response.agentName} says ${response.riskLevel} (score ${response.score}); ${others} (median score ${scoreMedian})`,
+      flags: response.flags,
+      opposing
+    };
+  });
+}
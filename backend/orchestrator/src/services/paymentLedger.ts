@@ -0,0 +1,303 @@
+import { getDatabase } from './database';
+import { AgentPaymentTotal, PaymentDistribution, PaymentHistoryQuery, PaymentRecord, Refund } from '../types';
+
+interface PaymentRow {
+  seq: number;
+  request_id: string;
+  total_amount: number;
+  platform_fee_percent: number;
+  created_at: string;
+}
+
+interface DistributionRow {
+  request_id: string;
+  agent_id: string;
+  amount: number;
+  recipient: string | null;
+  tx_id: string | null;
+  status: PaymentDistribution['status'];
+  error: string | null;
+}
+
+interface RefundRow {
+  request_id: string;
+  payer: string | null;
+  amount: number;
+  reason: string;
+  tx_id: string | null;
+  status: Refund['status'];
+  error: string | null;
+  created_at: string;
+}
+
+class PaymentLedger {
+  private initialized = false;
+
+  private init() {
+    if (this.initialized) return;
+
+    getDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS payments (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        request_id TEXT NOT NULL UNIQUE,
+        total_amount INTEGER NOT NULL,
+        platform_fee_percent REAL NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_payments_created ON payments(created_at);
+
+      CREATE TABLE IF NOT EXISTS payment_distributions (
+        request_id TEXT NOT NULL REFERENCES payments(request_id) ON DELETE CASCADE,
+        agent_id TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        recipient TEXT,
+        tx_id TEXT,
+        status TEXT NOT NULL,
+        error TEXT,
+        PRIMARY KEY (request_id, agent_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_distributions_agent ON payment_distributions(agent_id);
+      CREATE INDEX IF NOT EXISTS idx_distributions_status ON payment_distributions(status);
+
+      CREATE TABLE IF NOT EXISTS refunds (
+        request_id TEXT PRIMARY KEY,
+        payer TEXT,
+        amount INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        tx_id TEXT,
+        status TEXT NOT NULL,
+        error TEXT,
+        created_at TEXT NOT NULL
+      );
+    `);
+
+    this.initialized = true;
+  }
+
+  /**
+   * Records a distribution. Idempotent on requestId: a repeated call returns
+   * the originally stored record with `created: false` and writes nothing.
+   */
+  record(
+    requestId: string,
+    distributions: PaymentDistribution[],
+    platformFeePercent: number
+  ): { created: boolean; record: PaymentRecord } {
+    this.init();
+    const existing = this.getByRequestId(requestId);
+    if (existing) return { created: false, record: existing };
+
+    const db = getDatabase();
+    const totalAmount = distributions.reduce((sum, d) => sum + d.amount, 0);
+    const createdAt = new Date().toISOString();
+
+    const insertPayment = db.prepare(
+      'INSERT INTO payments (request_id, total_amount, platform_fee_percent, created_at) VALUES (?, ?, ?, ?)'
+    );
+    const insertDistribution = db.prepare(
+      'INSERT INTO payment_distributions (request_id, agent_id, amount, recipient, tx_id, status, error) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+
+    db.transaction(() => {
+      insertPayment.run(requestId, totalAmount, platformFeePercent, createdAt);
+      distributions.forEach(d => {
+        insertDistribution.run(requestId, d.agentId, d.amount, d.recipient || null, d.txId || null, d.status, d.error || null);
+      });
+    })();
+
+    return { created: true, record: this.getByRequestId(requestId)! };
+  }
+
+  getByRequestId(requestId: string): PaymentRecord | undefined {
+    this.init();
+    const row = getDatabase()
+      .prepare('SELECT * FROM payments WHERE request_id = ?')
+      .get(requestId) as PaymentRow | undefined;
+    return row ? this.hydrate([row])[0] : undefined;
+  }
+
+  /**
+   * Newest-first history. `cursor` is the opaque `nextCursor` from a previous
+   * page; `from`/`to` are inclusive ISO-8601 bounds on the record timestamp.
+   */
+  history(query: PaymentHistoryQuery): { payments: PaymentRecord[]; nextCursor: string | null } {
+    this.init();
+
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = { limit: query.limit + 1 };
+    if (query.cursor) {
+      conditions.push('seq < @cursor');
+      params.cursor = decodeCursor(query.cursor);
+    }
+    if (query.from) {
+      conditions.push('created_at >= @from');
+      params.from = query.from;
+    }
+    if (query.to) {
+      conditions.push('created_at <= @to');
+      params.to = query.to;
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = getDatabase()
+      .prepare(`SELECT * FROM payments ${where} ORDER BY seq DESC LIMIT @limit`)
+      .all(params) as PaymentRow[];
+
+    // One extra row is fetched to know whether another page exists
+    const hasMore = rows.length > query.limit;
+    const page = rows.slice(0, query.limit);
+
+    return {
+      payments: this.hydrate(page),
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1].seq) : null
+    };
+  }
+
+  agentTotals(range: { from?: string; to?: string } = {}): AgentPaymentTotal[] {
+    this.init();
+
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+    if (range.from) {
+      conditions.push('p.created_at >= @from');
+      params.from = range.from;
+    }
+    if (range.to) {
+      conditions.push('p.created_at <= @to');
+      params.to = range.to;
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = getDatabase().prepare(`
+      SELECT
+        d.agent_id AS agentId,
+        COUNT(*) AS payments,
+        SUM(d.amount) AS totalAmount,
+        SUM(CASE WHEN d.status = 'confirmed' THEN d.amount ELSE 0 END) AS confirmedAmount,
+        SUM(CASE WHEN d.status = 'pending' THEN d.amount ELSE 0 END) AS pendingAmount,
+        SUM(CASE WHEN d.status = 'failed' THEN d.amount ELSE 0 END) AS failedAmount
+      FROM payment_distributions d
+      JOIN payments p ON p.request_id = d.request_id
+      ${where}
+      GROUP BY d.agent_id
+      ORDER BY totalAmount DESC
+    `).all(params) as AgentPaymentTotal[];
+
+    return rows;
+  }
+
+  updateDistribution(
+    requestId: string,
+    agentId: string,
+    patch: Pick<PaymentDistribution, 'status'> & Partial<Pick<PaymentDistribution, 'txId' | 'error'>>
+  ) {
+    this.init();
+    getDatabase()
+      .prepare(`
+        UPDATE payment_distributions
+        SET status = @status, tx_id = COALESCE(@txId, tx_id), error = @error
+        WHERE request_id = @requestId AND agent_id = @agentId
+      `)
+      .run({ requestId, agentId, status: patch.status, txId: patch.txId || null, error: patch.error || null });
+  }
+
+  /** Distributions that have been broadcast but not yet confirmed or failed on-chain. */
+  pendingBroadcasts(): Array<{ requestId: string; agentId: string; txId: string }> {
+    this.init();
+    return getDatabase()
+      .prepare(`
+        SELECT request_id AS requestId, agent_id AS agentId, tx_id AS txId
+        FROM payment_distributions
+        WHERE status = 'pending' AND tx_id IS NOT NULL
+      `)
+      .all() as Array<{ requestId: string; agentId: string; txId: string }>;
+  }
+
+  /** Records a refund owed to the payer of a paid request. Idempotent on requestId like `record`. */
+  recordRefund(requestId: string, payer: string | null, amount: number, reason: string): { created: boolean; refund: Refund } {
+    this.init();
+    const existing = this.getRefund(requestId);
+    if (existing) return { created: false, refund: existing };
+
+    getDatabase()
+      .prepare(`
+        INSERT INTO refunds (request_id, payer, amount, reason, status, error, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(requestId, payer, amount, reason, payer ? 'pending' : 'failed', payer ? null : 'Payer address unknown', new Date().toISOString());
+
+    return { created: true, refund: this.getRefund(requestId)! };
+  }
+
+  getRefund(requestId: string): Refund | undefined {
+    this.init();
+    const row = getDatabase().prepare('SELECT * FROM refunds WHERE request_id = ?').get(requestId) as RefundRow | undefined;
+    if (!row) return undefined;
+
+    return {
+      requestId: row.request_id,
+      payer: row.payer,
+      amount: row.amount,
+      reason: row.reason,
+      txId: row.tx_id || undefined,
+      status: row.status,
+      error: row.error || undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  updateRefund(requestId: string, patch: Pick<Refund, 'status'> & Partial<Pick<Refund, 'txId' | 'error'>>) {
+    this.init();
+    getDatabase()
+      .prepare('UPDATE refunds SET status = @status, tx_id = COALESCE(@txId, tx_id), error = @error WHERE request_id = @requestId')
+      .run({ requestId, status: patch.status, txId: patch.txId || null, error: patch.error || null });
+  }
+
+  /** Refunds that have been broadcast but not yet confirmed or failed on-chain. */
+  pendingRefunds(): Array<{ requestId: string; txId: string }> {
+    this.init();
+    return getDatabase()
+      .prepare(`SELECT request_id AS requestId, tx_id AS txId FROM refunds WHERE status = 'pending' AND tx_id IS NOT NULL`)
+      .all() as Array<{ requestId: string; txId: string }>;
+  }
+
+  private hydrate(rows: PaymentRow[]): PaymentRecord[] {
+    if (rows.length === 0) return [];
+
+    const ids = rows.map(r => r.request_id);
+    const distributionRows = getDatabase()
+      .prepare(`SELECT * FROM payment_distributions WHERE request_id IN (${ids.map(() => '?').join(', ')})`)
+      .all(...ids) as DistributionRow[];
+
+    return rows.map(row => ({
+      requestId: row.request_id,
+      distributions: distributionRows
+        .filter(d => d.request_id === row.request_id)
+        .map(d => ({
+          agentId: d.agent_id,
+          amount: d.amount,
+          recipient: d.recipient || undefined,
+          txId: d.tx_id || undefined,
+          status: d.status,
+          error: d.error || undefined
+        })),
+      timestamp: row.created_at,
+      totalAmount: row.total_amount,
+      platformFeePercent: row.platform_fee_percent
+    }));
+  }
+}
+
+function encodeCursor(seq: number): string {
+  return Buffer.from(String(seq)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  const seq = parseInt(Buffer.from(cursor, 'base64url').toString());
+  if (!Number.isFinite(seq)) {
+    throw new Error('Invalid cursor');
+  }
+  return seq;
+}
+
+export const paymentLedger = new PaymentLedger();
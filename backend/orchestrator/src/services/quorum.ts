@@ -0,0 +1,38 @@
+import { AgentBid, IntelligenceRequest, QuorumCheck, QuorumRule } from '../types';
+
+function parseTypes(value: string | undefined): string[] {
+  return (value || '').split(',').map(t => t.trim()).filter(Boolean);
+}
+
+/**
+ * Deployment rules from QUORUM_MIN_AGENTS / QUORUM_REQUIRED_TYPES, tightened by
+ * the request's own `quorum`. A request can ask for more coverage, never less.
+ */
+export function resolveQuorum(request: IntelligenceRequest): QuorumRule {
+  const minAgents = Math.max(1, Number(process.env.QUORUM_MIN_AGENTS || 2), request.quorum?.minAgents || 0);
+  const requiredTypes = [...new Set([...parseTypes(process.env.QUORUM_REQUIRED_TYPES), ...(request.quorum?.requiredTypes || [])])];
+  return { minAgents, requiredTypes };
+}
+
+/** Checks a set of agents (selected or responding) against the quorum rule. */
+export function checkQuorum(rule: QuorumRule, agents: Array<Pick<AgentBid, 'agentId' | 'agentName' | 'agentType'>>): QuorumCheck {
+  const coveredTypes = [...new Set(agents.map(a => a.agentType))];
+  const missingTypes = rule.requiredTypes.filter(t => !coveredTypes.includes(t));
+
+  const reasons: string[] = [];
+  if (agents.length < rule.minAgents) {
+    reasons.push(`Only ${agents.length} agent(s); quorum needs ${rule.minAgents}`);
+  }
+  if (missingTypes.length > 0) {
+    reasons.push(`Missing required agent types: ${missingTypes.join(', ')}`);
+  }
+
+  return {
+    met: reasons.length === 0,
+    rule,
+    agents: agents.map(a => a.agentName),
+    coveredTypes,
+    missingTypes,
+    reasons
+  };
+}
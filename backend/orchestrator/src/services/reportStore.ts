@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import { ensureColumn, getDatabase } from './database';
+import { AgentResponse, AuctionResult, ConsensusResult, IntelligenceRequest, ReportFilters, ReportSummary, StoredReport, VerdictCode } from '../types';
+
+interface ReportRow {
+  id: string;
+  query: string;
+  token_address: string | null;
+  requester_address: string;
+  recommendation: string;
+  verdict: VerdictCode | null;
+  average_score: number;
+  confidence: number;
+  total_cost: number;
+  agent_count: number;
+  available_agents: number;
+  paid_mode: number;
+  request_json: string;
+  consensus_json: string;
+  auction_json: string | null;
+  created_at: string;
+}
+
+class ReportStore {
+  private initialized = false;
+
+  private init() {
+    if (this.initialized) return;
+    const db = getDatabase();
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS reports (
+        id TEXT PRIMARY KEY,
+        query TEXT NOT NULL,
+        token_address TEXT,
+        requester_address TEXT NOT NULL,
+        recommendation TEXT NOT NULL,
+        average_score INTEGER NOT NULL,
+        confidence INTEGER NOT NULL,
+        total_cost INTEGER NOT NULL,
+        agent_count INTEGER NOT NULL,
+        available_agents INTEGER NOT NULL,
+        paid_mode INTEGER NOT NULL DEFAULT 0,
+        request_json TEXT NOT NULL,
+        consensus_json TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_reports_token ON reports(token_address);
+      CREATE INDEX IF NOT EXISTS idx_reports_requester ON reports(requester_address);
+      CREATE INDEX IF NOT EXISTS idx_reports_created ON reports(created_at);
+
+      CREATE TABLE IF NOT EXISTS agent_responses (
+        report_id TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+        agent_id TEXT NOT NULL,
+        agent_name TEXT NOT NULL,
+        score INTEGER NOT NULL,
+        risk_level TEXT NOT NULL,
+        execution_time INTEGER NOT NULL,
+        response_json TEXT NOT NULL,
+        PRIMARY KEY (report_id, agent_id)
+      );
+    `);
+    ensureColumn('reports', 'auction_json', 'TEXT');
+    if (ensureColumn('reports', 'verdict', 'TEXT')) {
+      // Reports saved before verdicts existed only have the label; its prefix maps onto the code
+      db.exec(`
+        UPDATE reports SET verdict = CASE
+          WHEN recommendation LIKE 'LOW RISK%' THEN 'LOW_RISK'
+          WHEN recommendation LIKE 'MEDIUM RISK%' THEN 'MEDIUM_RISK'
+          WHEN recommendation LIKE 'HIGH RISK%' THEN 'HIGH_RISK'
+          WHEN recommendation LIKE 'CRITICAL RISK%' THEN 'CRITICAL_RISK'
+        END
+        WHERE verdict IS NULL
+      `);
+    }
+    db.exec('CREATE INDEX IF NOT EXISTS idx_reports_verdict ON reports(verdict)');
+
+    this.initialized = true;
+  }
+
+  saveReport(
+    request: IntelligenceRequest,
+    consensus: ConsensusResult,
+    options: { paidMode: boolean; availableAgents: number; id?: string; auction?: AuctionResult }
+  ): StoredReport {
+    this.init();
+    const db = getDatabase();
+
+    const report: StoredReport = {
+      id: options.id || randomUUID(),
+      request,
+      consensus,
+      auction: options.auction,
+      paidMode: options.paidMode,
+      availableAgents: options.availableAgents,
+      createdAt: new Date().toISOString()
+    };
+
+    const insertReport = db.prepare(`
+      INSERT INTO reports (
+        id, query, token_address, requester_address, recommendation, verdict, average_score,
+        confidence, total_cost, agent_count, available_agents, paid_mode,
+        request_json, consensus_json, auction_json, created_at
+      ) VALUES (
+        @id, @query, @tokenAddress, @requesterAddress, @recommendation, @verdict, @averageScore,
+        @confidence, @totalCost, @agentCount, @availableAgents, @paidMode,
+        @requestJson, @consensusJson, @auctionJson, @createdAt
+      )
+    `);
+    const insertResponse = db.prepare(`
+      INSERT INTO agent_responses (report_id, agent_id, agent_name, score, risk_level, execution_time, response_json)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    // Responses are stored both inline and per-agent so they can be queried individually later
+    db.transaction(() => {
+      insertReport.run({
+        id: report.id,
+        query: request.query,
+        tokenAddress: request.tokenAddress || null,
+        requesterAddress: request.requesterAddress,
+        recommendation: consensus.recommendation,
+        verdict: consensus.verdict.verdict,
+        averageScore: consensus.averageScore,
+        confidence: consensus.confidence,
+        totalCost: consensus.totalCost,
+        agentCount: consensus.responses.length,
+        availableAgents: report.availableAgents,
+        paidMode: report.paidMode ? 1 : 0,
+        requestJson: JSON.stringify(request),
+        consensusJson: JSON.stringify(consensus),
+        auctionJson: options.auction ? JSON.stringify(options.auction) : null,
+        createdAt: report.createdAt
+      });
+      consensus.responses.forEach((r: AgentResponse) => {
+        insertResponse.run(report.id, r.agentId, r.agentName, r.score, r.riskLevel, r.executionTime, JSON.stringify(r));
+      });
+    })();
+
+    return report;
+  }
+
+  getReport(id: string): StoredReport | undefined {
+    this.init();
+    const row = getDatabase()
+      .prepare('SELECT * FROM reports WHERE id = ?')
+      .get(id) as ReportRow | undefined;
+    if (!row) return undefined;
+
+    return {
+      id: row.id,
+      request: JSON.parse(row.request_json),
+      consensus: JSON.parse(row.consensus_json),
+      auction: row.auction_json ? JSON.parse(row.auction_json) : undefined,
+      paidMode: row.paid_mode === 1,
+      availableAgents: row.available_agents,
+      createdAt: row.created_at
+    };
+  }
+
+  listReports(filters: ReportFilters): { total: number; reports: ReportSummary[] } {
+    this.init();
+    const db = getDatabase();
+
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+    if (filters.tokenAddress) {
+      conditions.push('token_address = @tokenAddress');
+      params.tokenAddress = filters.tokenAddress;
+    }
+    if (filters.requesterAddress) {
+      conditions.push('requester_address = @requesterAddress');
+      params.requesterAddress = filters.requesterAddress;
+    }
+    if (filters.recommendation) {
+      conditions.push('recommendation = @recommendation');
+      params.recommendation = filters.recommendation;
+    }
+    if (filters.verdict) {
+      conditions.push('verdict = @verdict');
+      params.verdict = filters.verdict;
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const { total } = db
+      .prepare(`SELECT COUNT(*) AS total FROM reports ${where}`)
+      .get(params) as { total: number };
+
+    const rows = db
+      .prepare(`SELECT * FROM reports ${where} ORDER BY created_at DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: filters.limit, offset: (filters.page - 1) * filters.limit }) as ReportRow[];
+
+    return {
+      total,
+      reports: rows.map(row => ({
+        id: row.id,
+        query: row.query,
+        tokenAddress: row.token_address,
+        requesterAddress: row.requester_address,
+        recommendation: row.recommendation,
+        verdict: row.verdict,
+        averageScore: row.average_score,
+        confidence: row.confidence,
+        totalCost: row.total_cost,
+        agentCount: row.agent_count,
+        paidMode: row.paid_mode === 1,
+        createdAt: row.created_at
+      }))
+    };
+  }
+}
+
+export const reportStore = new ReportStore();
@@ -0,0 +1,66 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { RequestEvent } from '../types';
+
+interface TrackedRun {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  events: RequestEvent[];
+  emitter: EventEmitter;
+  createdAt: string;
+}
+
+// How long a finished run's events stay available for late subscribers
+const RUN_RETENTION_MS = 10 * 60 * 1000;
+
+class RunTracker {
+  private runs: Map<string, TrackedRun> = new Map();
+
+  create(): TrackedRun {
+    const run: TrackedRun = {
+      id: randomUUID(),
+      status: 'running',
+      events: [],
+      emitter: new EventEmitter(),
+      createdAt: new Date().toISOString()
+    };
+    this.runs.set(run.id, run);
+    return run;
+  }
+
+  get(id: string): TrackedRun | undefined {
+    return this.runs.get(id);
+  }
+
+  emit(id: string, event: RequestEvent) {
+    const run = this.runs.get(id);
+    if (!run || run.status !== 'running') return;
+
+    run.events.push(event);
+    if (event.type === 'complete') run.status = 'completed';
+    if (event.type === 'request_failed') run.status = 'failed';
+    run.emitter.emit('event', event);
+
+    if (run.status !== 'running') {
+      run.emitter.removeAllListeners();
+      setTimeout(() => this.runs.delete(id), RUN_RETENTION_MS).unref();
+    }
+  }
+
+  /**
+   * Replays every event recorded so far, then forwards new ones until the run
+   * finishes. Returns an unsubscribe function.
+   */
+  subscribe(id: string, listener: (event: RequestEvent) => void): () => void {
+    const run = this.runs.get(id);
+    if (!run) return () => {};
+
+    run.events.forEach(listener);
+    if (run.status !== 'running') return () => {};
+
+    run.emitter.on('event', listener);
+    return () => run.emitter.off('event', listener);
+  }
+}
+
+export const runTracker = new RunTracker();
@@ -0,0 +1,245 @@
+import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { PaymentDistribution, Refund } from '../types';
+import { paymentLedger } from './paymentLedger';
+
+export type SettlementStatus = PaymentDistribution['status'];
+
+const HIRO_API_URLS = {
+  mainnet: 'https://api.hiro.so',
+  testnet: 'https://api.testnet.hiro.so'
+};
+
+export interface SettlementBackend {
+  readonly name: string;
+  /** Builds and submits a transfer; resolves with the broadcast tx ID. */
+  broadcast(recipient: string, amount: number, memo: string): Promise<string>;
+  /** Current on-chain status of a previously broadcast tx. */
+  getStatus(txId: string): Promise<SettlementStatus>;
+}
+
+// Broadcasts real STX transfers signed with the orchestrator key
+export class StacksSettlementBackend implements SettlementBackend {
+  readonly name = 'stacks';
+  private readonly network = (process.env.STACKS_NETWORK || 'testnet') as 'mainnet' | 'testnet';
+  // Status checks must query the same network the transfers were broadcast to
+  private readonly STACKS_API = process.env.SETTLEMENT_API_URL || HIRO_API_URLS[this.network];
+  private nextNonce: bigint | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Payouts and refunds share the signing key, so broadcasts run one at a time to keep nonces unique
+  broadcast(recipient: string, amount: number, memo: string): Promise<string> {
+    const run = this.queue.then(() => this.send(recipient, amount, memo));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async send(recipient: string, amount: number, memo: string): Promise<string> {
+    const privateKey = process.env.ORCHESTRATOR_PRIVATE_KEY;
+    if (!privateKey) {
+      throw new Error('ORCHESTRATOR_PRIVATE_KEY not set in .env - orchestrator cannot settle payments');
+    }
+
+    const { makeSTXTokenTransfer, broadcastTransaction, fetchNonce, privateKeyToAddress } = await import('@stacks/transactions');
+
+    // Distributions are broadcast back to back, so track the nonce locally instead of re-fetching it
+    if (this.nextNonce === null) {
+      this.nextNonce = await fetchNonce({ address: privateKeyToAddress(privateKey, this.network), network: this.network });
+    }
+
+    const transaction = await makeSTXTokenTransfer({
+      recipient,
+      amount: BigInt(amount),
+      memo: memo.slice(0, 34),
+      senderKey: privateKey,
+      nonce: this.nextNonce,
+      network: this.network
+    });
+
+    let result: Awaited<ReturnType<typeof broadcastTransaction>>;
+    try {
+      result = await broadcastTransaction({ transaction, network: this.network });
+    } catch (error) {
+      // The node may or may not have taken the tx; resync rather than guess
+      this.nextNonce = null;
+      throw error;
+    }
+    if ('error' in result) {
+      // A rejected tx leaves the nonce unused; resync on the next broadcast
+      this.nextNonce = null;
+      throw new Error(`Broadcast rejected: ${result.reason}`);
+    }
+
+    this.nextNonce++;
+    return result.txid;
+  }
+
+  async getStatus(txId: string): Promise<SettlementStatus> {
+    const headers: Record<string, string> = {};
+    if (process.env.HIRO_API_KEY) headers['x-hiro-api-key'] = process.env.HIRO_API_KEY;
+
+    try {
+      const response = await axios.get(`${this.STACKS_API}/extended/v1/tx/${txId}`, { timeout: 10000, headers });
+      const txStatus: string = response.data?.tx_status || 'pending';
+      if (txStatus === 'success') return 'confirmed';
+      if (txStatus === 'pending') return 'pending';
+      return 'failed';
+    } catch (error: any) {
+      // Freshly broadcast txs can 404 until the API indexes the mempool
+      if (error.response?.status === 404) return 'pending';
+      throw error;
+    }
+  }
+}
+
+// In-memory chain for tests and local development; no funds move
+export class MockChainSettlementBackend implements SettlementBackend {
+  readonly name = 'mock';
+  private txs: Map<string, { recipient: string; amount: number; polls: number }> = new Map();
+
+  constructor(
+    private readonly options: { confirmAfterPolls?: number; failingRecipients?: string[] } = {}
+  ) {}
+
+  async broadcast(recipient: string, amount: number, _memo: string): Promise<string> {
+    const txId = `0x${randomBytes(32).toString('hex')}`;
+    this.txs.set(txId, { recipient, amount, polls: 0 });
+    return txId;
+  }
+
+  async getStatus(txId: string): Promise<SettlementStatus> {
+    const tx = this.txs.get(txId);
+    if (!tx) return 'failed';
+
+    tx.polls++;
+    if (tx.polls < (this.options.confirmAfterPolls ?? 1)) return 'pending';
+    return this.options.failingRecipients?.includes(tx.recipient) ? 'failed' : 'confirmed';
+  }
+}
+
+class SettlementService {
+  private backend: SettlementBackend | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private retrying = new Set<string>();
+
+  getBackend(): SettlementBackend {
+    if (this.backend) return this.backend;
+    this.backend = process.env.SETTLEMENT_BACKEND === 'mock'
+      ? new MockChainSettlementBackend()
+      : new StacksSettlementBackend();
+    console.log(`🏦 Settlement backend: ${this.backend.name}`);
+    return this.backend;
+  }
+
+  setBackend(backend: SettlementBackend) {
+    this.backend = backend;
+  }
+
+  /**
+   * Broadcasts each pending distribution of a recorded payment. Broadcast
+   * failures are marked `failed` immediately; successful broadcasts stay
+   * `pending` until the poller sees them confirmed.
+   */
+  async settle(requestId: string, distributions: PaymentDistribution[]) {
+    for (const dist of distributions) {
+      if (dist.status !== 'pending' || dist.txId) continue;
+      await this.broadcastDistribution(requestId, dist);
+    }
+  }
+
+  /** Broadcasts again every distribution of a recorded payment that failed; returns how many were retried. */
+  async retryFailed(requestId: string): Promise<number> {
+    // Overlapping replays would otherwise both re-broadcast the same rows
+    if (this.retrying.has(requestId)) return 0;
+    this.retrying.add(requestId);
+    try {
+      const failed = (paymentLedger.getByRequestId(requestId)?.distributions || []).filter(d => d.status === 'failed');
+      for (const dist of failed) {
+        await this.broadcastDistribution(requestId, dist);
+      }
+      return failed.length;
+    } finally {
+      this.retrying.delete(requestId);
+    }
+  }
+
+  private async broadcastDistribution(requestId: string, dist: PaymentDistribution) {
+    if (!dist.recipient) {
+      paymentLedger.updateDistribution(requestId, dist.agentId, { status: 'failed', error: 'No payout address for agent' });
+      return;
+    }
+
+    try {
+      const txId = await this.getBackend().broadcast(dist.recipient, dist.amount, `agentswarm ${requestId}`);
+      paymentLedger.updateDistribution(requestId, dist.agentId, { status: 'pending', txId });
+      console.log(`  📤 ${dist.agentId}: ${dist.amount} microSTX broadcast (${txId.slice(0, 16)}...)`);
+    } catch (error: any) {
+      console.error(`  ❌ ${dist.agentId} settlement broadcast failed:`, error.message);
+      paymentLedger.updateDistribution(requestId, dist.agentId, { status: 'failed', error: error.message });
+    }
+  }
+
+  /** Sends a recorded refund back to the payer; the poller confirms it like a distribution. */
+  async refund(refund: Refund): Promise<Refund> {
+    if (refund.status !== 'pending' || refund.txId || !refund.payer) return refund;
+
+    try {
+      const txId = await this.getBackend().broadcast(refund.payer, refund.amount, `agentswarm refund ${refund.requestId}`);
+      paymentLedger.updateRefund(refund.requestId, { status: 'pending', txId });
+      console.log(`  ↩️ Refund of ${refund.amount} microSTX to ${refund.payer} broadcast (${txId.slice(0, 16)}...)`);
+      return { ...refund, txId };
+    } catch (error: any) {
+      console.error(`  ❌ Refund for ${refund.requestId} failed:`, error.message);
+      paymentLedger.updateRefund(refund.requestId, { status: 'failed', error: error.message });
+      return { ...refund, status: 'failed', error: error.message };
+    }
+  }
+
+  /** Checks every broadcast-but-unconfirmed distribution and refund once. */
+  async pollPending() {
+    const backend = this.getBackend();
+
+    for (const pending of paymentLedger.pendingRefunds()) {
+      try {
+        const status = await backend.getStatus(pending.txId);
+        if (status === 'pending') continue;
+        paymentLedger.updateRefund(pending.requestId, {
+          status,
+          error: status === 'failed' ? 'Transaction failed on-chain' : undefined
+        });
+        console.log(`  ${status === 'confirmed' ? '✅' : '❌'} Refund ${pending.txId.slice(0, 16)}... ${status}`);
+      } catch (error: any) {
+        console.error(`⚠️ Refund status check failed for ${pending.txId}:`, error.message);
+      }
+    }
+
+    for (const pending of paymentLedger.pendingBroadcasts()) {
+      try {
+        const status = await backend.getStatus(pending.txId);
+        if (status === 'pending') continue;
+        paymentLedger.updateDistribution(pending.requestId, pending.agentId, {
+          status,
+          error: status === 'failed' ? 'Transaction failed on-chain' : undefined
+        });
+        console.log(`  ${status === 'confirmed' ? '✅' : '❌'} Settlement ${pending.txId.slice(0, 16)}... ${status}`);
+      } catch (error: any) {
+        console.error(`⚠️ Settlement status check failed for ${pending.txId}:`, error.message);
+      }
+    }
+  }
+
+  startPolling(intervalMs = Number(process.env.SETTLEMENT_POLL_INTERVAL_MS || 30000)) {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      this.pollPending().catch(err => console.error('Settlement poll error:', err.message));
+    }, intervalMs);
+    this.pollTimer.unref();
+  }
+
+  stopPolling() {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+}
+
+export const settlementService = new SettlementService();
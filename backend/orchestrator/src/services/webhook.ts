@@ -0,0 +1,127 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+const MAX_ATTEMPTS = 3;
+
+// Loopback, private, link-local, CGNAT, benchmarking, multicast and reserved IPv4 ranges as [first octets, prefix bits]
+const BLOCKED_V4: Array<[number[], number]> = [
+  [[0], 8], [[10], 8], [[100, 64], 10], [[127], 8], [[169, 254], 16], [[172, 16], 12],
+  [[192, 0, 0], 24], [[192, 168], 16], [[198, 18], 15], [[224], 4], [[240], 4]
+];
+
+function isBlockedV4(ip: string): boolean {
+  const value = ip.split('.').reduce((n, octet) => (n << 8) + Number(octet), 0) >>> 0;
+  return BLOCKED_V4.some(([octets, bits]) => {
+    const base = [...octets, 0, 0, 0].slice(0, 4).reduce((n, octet) => (n << 8) + octet, 0) >>> 0;
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((value & mask) >>> 0) === ((base & mask) >>> 0);
+  });
+}
+
+// Whether an IP literal points inside the orchestrator's own network rather than the public internet
+export function isPrivateAddress(ip: string): boolean {
+  if (isIP(ip) === 4) return isBlockedV4(ip);
+  const v6 = ip.toLowerCase();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(v6);
+  if (mapped) return isBlockedV4(mapped[1]);
+  // URL parsing rewrites ::ffff:127.0.0.1 as ::ffff:7f00:1
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(v6);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isBlockedV4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return v6 === '::' || v6 === '::1' || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith('ff');
+}
+
+/**
+ * Checks a job callback URL before it is accepted and again before each
+ * delivery: http(s) only, and neither the host nor any address it resolves to
+ * may be loopback or private, so callbacks cannot reach internal services.
+ * Returns an error message, or null when the URL is fine.
+ */
+export async function validateCallbackUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'callbackUrl must be an absolute http(s) URL';
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'callbackUrl must be an absolute http(s) URL';
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    return 'callbackUrl must not point at a local or internal host';
+  }
+
+  try {
+    const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+    if (addresses.some(a => isPrivateAddress(a.address))) {
+      return 'callbackUrl must not point at a private or loopback address';
+    }
+  } catch {
+    return `callbackUrl host ${host} could not be resolved`;
+  }
+  return null;
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}` with CALLBACK_SIGNING_SECRET.
+ * Receivers recompute it from the raw body and the X-AgentSwarm-Timestamp header.
+ */
+export function signPayload(body: string, timestamp: string): string {
+  const secret = process.env.CALLBACK_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('CALLBACK_SIGNING_SECRET not set in .env - cannot sign job callbacks');
+  }
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// POST a signed JSON payload, retrying with exponential backoff on network errors and 5xx
+export async function deliverWebhook(url: string, payload: unknown): Promise<{ delivered: boolean; attempts: number; error?: string }> {
+  if (!process.env.CALLBACK_SIGNING_SECRET) {
+    return { delivered: false, attempts: 0, error: 'CALLBACK_SIGNING_SECRET not configured' };
+  }
+
+  // Re-checked at delivery time: the host may resolve differently than when the job was accepted
+  const urlError = await validateCallbackUrl(url);
+  if (urlError) {
+    return { delivered: false, attempts: 0, error: urlError };
+  }
+
+  const body = JSON.stringify(payload);
+  let lastError = '';
+  let attempts = 0;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    attempts = attempt;
+    if (attempt > 1) {
+      const delay = Math.pow(2, attempt - 1) * 1000;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    try {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      await axios.post(url, body, {
+        timeout: 10000,
+        maxRedirects: 0, // a redirect could point anywhere, including internal hosts
+        headers: {
+          'Content-Type': 'application/json',
+          'X-AgentSwarm-Timestamp': timestamp,
+          'X-AgentSwarm-Signature': `sha256=${signPayload(body, timestamp)}`
+        }
+      });
+      return { delivered: true, attempts: attempt };
+    } catch (err: any) {
+      lastError = err.response ? `HTTP ${err.response.status}` : err.message;
+      console.error(`⚠️ Callback to ${url} failed (attempt ${attempt}/${MAX_ATTEMPTS}): ${lastError}`);
+      // 4xx means the receiver rejected the payload; retrying will not help
+      if (err.response?.status < 500) break;
+    }
+  }
+
+  return { delivered: false, attempts, error: lastError };
+}
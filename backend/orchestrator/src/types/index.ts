@@ -1,18 +1,71 @@
+import { CanonicalTarget } from '@agentswarm/agent-kit';
+
+export { CanonicalTarget };
+
 export interface IntelligenceRequest {
   query: string;
   tokenAddress?: string;
   budget: number;
   requesterAddress: string;
   priority?: 'low' | 'medium' | 'high';
+  callbackUrl?: string;
+  requiredTypes?: string[];
+  consensusStrategy?: string;
+  quorum?: Partial<QuorumRule>;
+  target?: CanonicalTarget; // set by the orchestrator from tokenAddress; never taken from the caller
+}
+
+export interface QuorumRule {
+  minAgents: number;
+  requiredTypes: string[];
+}
+
+export interface QuorumCheck {
+  met: boolean;
+  rule: QuorumRule;
+  agents: string[];
+  coveredTypes: string[];
+  missingTypes: string[];
+  reasons: string[];
 }
 
 export interface AgentBid {
   agentId: string;
   agentName: string;
+  agentType: string;
   endpoint: string;
   price: number;
   estimatedTime: number;
   confidence: number;
+  quoteSource: 'bid' | 'list-price';
+}
+
+export interface AuctionSelection {
+  agentId: string;
+  agentName: string;
+  agentType: string;
+  price: number;
+  reason: string;
+}
+
+export interface AuctionDrop {
+  agentId: string;
+  agentName: string;
+  agentType: string;
+  price: number;
+  reason: 'outbid' | 'over-budget';
+  detail: string;
+}
+
+export interface AuctionResult {
+  bids: AgentBid[];
+  selected: AgentBid[];
+  selections: AuctionSelection[];
+  dropped: AuctionDrop[];
+  requiredTypes: string[];
+  uncoveredTypes: string[];
+  totalPrice: number;
+  budget: number;
 }
 
 export interface AgentResponse {
@@ -22,22 +75,183 @@ export interface AgentResponse {
   analysis: string;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   flags: string[];
+  confidence?: number;
   metadata: Record<string, any>;
   executionTime: number;
 }
 
+export interface AgentWeight {
+  agentId: string;
+  agentName: string;
+  agentType: string;
+  typeWeight: number;
+  reputation: number;
+  confidence: number;
+  weight: number;
+  share: number;
+}
+
+export interface ConsensusOutlier {
+  agentId: string;
+  agentName: string;
+  score: number;
+  riskLevel: AgentResponse['riskLevel'];
+  dimensions: Array<'score' | 'riskLevel'>;
+  robustZ: number;
+  groupMedianScore: number;
+  groupRiskLevel: AgentResponse['riskLevel'];
+  summary: string;
+  flags: string[];
+  opposing: Array<Pick<AgentResponse, 'agentId' | 'agentName' | 'score' | 'riskLevel' | 'flags'>>;
+}
+
+export type VerdictCode = 'LOW_RISK' | 'MEDIUM_RISK' | 'HIGH_RISK' | 'CRITICAL_RISK';
+
+export interface VerdictThresholds {
+  low: number;
+  medium: number;
+  high: number;
+  majorityHighFraction: number;
+}
+
+export interface VerdictRule {
+  id: 'ANY_CRITICAL' | 'MAJORITY_HIGH' | 'SCORE_BAND';
+  verdict: VerdictCode;
+  detail: string;
+}
+
+export interface Verdict {
+  verdict: VerdictCode;
+  label: string;
+  score: number;
+  thresholds: VerdictThresholds;
+  // Every rule whose condition held, in precedence order; the first one decided the verdict
+  rulesFired: VerdictRule[];
+}
+
 export interface ConsensusResult {
+  strategy: string;
   averageScore: number;
+  unweightedScore: number;
   consensusStrength: number;
+  verdict: Verdict;
   recommendation: string;
   confidence: number;
   totalCost: number;
+  weights: AgentWeight[];
+  outliers: ConsensusOutlier[];
   responses: AgentResponse[];
 }
 
 export interface PaymentDistribution {
   agentId: string;
   amount: number;
+  recipient?: string;
   txId?: string;
   status: 'pending' | 'confirmed' | 'failed';
+  error?: string;
+}
+
+export interface Refund {
+  requestId: string;
+  payer: string | null;
+  amount: number;
+  reason: string;
+  txId?: string;
+  status: PaymentDistribution['status'];
+  error?: string;
+  createdAt: string;
+}
+
+export interface StoredReport {
+  id: string;
+  request: IntelligenceRequest;
+  consensus: ConsensusResult;
+  auction?: AuctionResult;
+  paidMode: boolean;
+  availableAgents: number;
+  createdAt: string;
+}
+
+export interface ReportSummary {
+  id: string;
+  query: string;
+  tokenAddress: string | null;
+  requesterAddress: string;
+  recommendation: string;
+  verdict: VerdictCode | null;
+  averageScore: number;
+  confidence: number;
+  totalCost: number;
+  agentCount: number;
+  paidMode: boolean;
+  createdAt: string;
+}
+
+export interface ReportFilters {
+  tokenAddress?: string;
+  requesterAddress?: string;
+  recommendation?: string;
+  verdict?: VerdictCode;
+  page: number;
+  limit: number;
+}
+
+export interface PaymentRecord {
+  requestId: string;
+  distributions: PaymentDistribution[];
+  timestamp: string;
+  totalAmount: number;
+  platformFeePercent: number;
+}
+
+export interface PaymentHistoryQuery {
+  cursor?: string;
+  from?: string;
+  to?: string;
+  limit: number;
+}
+
+export interface AgentPaymentTotal {
+  agentId: string;
+  payments: number;
+  totalAmount: number;
+  confirmedAmount: number;
+  pendingAmount: number;
+  failedAmount: number;
+}
+
+export type RequestEvent =
+  | { type: 'agent_dispatched'; agentId: string; agentName: string; price: number; timestamp: string }
+  | { type: 'agent_paid'; agentId: string; agentName: string; payment: Record<string, any>; timestamp: string }
+  | { type: 'agent_completed'; agentId: string; agentName: string; score: number; riskLevel: AgentResponse['riskLevel']; executionTime: number; timestamp: string }
+  | { type: 'agent_failed'; agentId: string; agentName: string; error: string; executionTime: number; timestamp: string }
+  | { type: 'consensus'; consensus: ConsensusResult; timestamp: string }
+  | { type: 'complete'; result: Record<string, any>; timestamp: string }
+  | { type: 'request_failed'; error: string; message?: string; coverage?: QuorumCheck; timestamp: string };
+
+export interface PartialAgentResult {
+  agentId: string;
+  agentName: string;
+  status: 'completed' | 'failed';
+  score?: number;
+  riskLevel?: AgentResponse['riskLevel'];
+  error?: string;
+  executionTime: number;
+}
+
+export interface Job {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  request: IntelligenceRequest;
+  partialResults: PartialAgentResult[];
+  error: string | null;
+  callback: {
+    url: string;
+    status: 'pending' | 'delivered' | 'failed';
+    attempts: number;
+    lastError: string | null;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
 }
@@ -0,0 +1,6 @@
+export { createAgentServer } from './server';
+export { stacksApi, StacksApiClient } from './stacksClient';
+export { AccountBalances, AssetPage, BnsName, ContractEvent, ContractEventPage, ContractInfo, ContractInterface, ContractSource, FtHolderPage, FtMetadata, StacksClientOptions, StacksTransaction, TransactionPage } from './stacksClient';
+export { CanonicalTarget, isCanonicalTarget, resolveTarget, targetAddress, TargetKind } from './target';
+export { describeSample, TxSample, TxWalkOptions, walkTransactions } from './txHistory';
+export { AgentAnalysisResponse, AgentServerConfig, AnalysisResult, Analyzer, RiskLevel } from './types';
@@ -0,0 +1,106 @@
+import express, { Express, Request, Response } from 'express';
+import cors from 'cors';
+import { Server } from 'http';
+import { paymentMiddleware, STACKS_NETWORKS } from 'x402-stacks';
+import { CanonicalTarget, isCanonicalTarget, resolveTarget } from './target';
+import { AgentAnalysisResponse, AgentServerConfig, AnalysisResult } from './types';
+
+/**
+ * Builds the standard agent HTTP surface around an analyzer: /health, /bid,
+ * /analyze-free and the x402-protected /analyze. Call `start()` to listen.
+ */
+export function createAgentServer(config: AgentServerConfig): { app: Express; start: () => Server } {
+  const port = Number(process.env.PORT || config.port);
+  const price = Number(process.env.BASE_PRICE_MICROSTX || config.price);
+  const name = process.env.AGENT_NAME || config.name;
+  const type = process.env.AGENT_TYPE || config.type;
+
+  const app = express();
+  app.use(cors());
+  app.use(express.json());
+
+  const toResponse = (result: AnalysisResult): AgentAnalysisResponse => ({
+    agentId: config.id,
+    agentName: name,
+    score: result.score,
+    analysis: result.summary,
+    riskLevel: result.riskLevel,
+    flags: result.issues,
+    confidence: result.confidence,
+    metadata: {
+      detailedFindings: result.details,
+      scanTime: result.scanTime,
+      price
+    },
+    executionTime: result.scanTime
+  });
+
+  // The orchestrator sends the target it resolved; direct callers get the same resolution here
+  const requestTarget = async (body: any): Promise<CanonicalTarget> => {
+    if (body?.target !== undefined) {
+      if (!isCanonicalTarget(body.target)) throw new Error('target is not a resolved target; send tokenAddress instead');
+      return body.target;
+    }
+    const input = body?.tokenAddress ?? body?.query;
+    if (typeof input !== 'string' || input.trim() === '') throw new Error('Missing tokenAddress');
+    return resolveTarget(input);
+  };
+
+  const analyze = (paid: boolean) => async (req: Request, res: Response) => {
+    let target: CanonicalTarget;
+    try {
+      target = await requestTarget(req.body);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    try {
+      console.log(`${config.icon} ${name}${paid ? ' (paid)' : ''} analyzing: ${target.input}${target.contractId && target.contractId !== target.input ? ` (${target.contractId})` : ''}`);
+
+      const result = await config.analyzer.analyze(target);
+      res.json(toResponse(result));
+    } catch (error: any) {
+      console.error(`${name} error:`, error.message);
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  app.get('/health', (_req: Request, res: Response) => {
+    res.json({ status: 'healthy', agent: name, type, port });
+  });
+
+  // Price quote for the orchestrator's auction
+  app.post('/bid', (_req: Request, res: Response) => {
+    res.json({
+      agentId: config.id,
+      agentName: name,
+      type,
+      price,
+      estimatedTime: config.estimatedTime,
+      validUntil: new Date(Date.now() + 60000).toISOString()
+    });
+  });
+
+  // Free endpoint for local/orchestrator use
+  app.post('/analyze-free', analyze(false));
+
+  // Paid endpoint using x402 payment middleware
+  app.post('/analyze',
+    paymentMiddleware({
+      amount: BigInt(price),
+      payTo: process.env.SERVER_ADDRESS!,
+      network: STACKS_NETWORKS.TESTNET,
+      asset: 'STX',
+      facilitatorUrl: process.env.FACILITATOR_URL || 'https://facilitator.stacksx402.com',
+    }),
+    analyze(true)
+  );
+
+  return {
+    app,
+    start: () => app.listen(port, () => {
+      console.log(`${config.icon} ${name} running on port ${port}`);
+    })
+  };
+}
@@ -0,0 +1,244 @@
+import axios, { AxiosError } from 'axios';
+
+export interface StacksTransaction {
+  tx_id: string;
+  tx_type: 'token_transfer' | 'smart_contract' | 'contract_call' | 'coinbase' | 'poison_microblock' | 'tenure_change';
+  tx_status: string;
+  sender_address: string;
+  fee_rate: string;
+  block_height?: number;
+  burn_block_time?: number;
+  burn_block_time_iso?: string;
+  token_transfer?: { recipient_address: string; amount: string; memo?: string };
+  smart_contract?: { contract_id: string; source_code?: string };
+  contract_call?: { contract_id: string; function_name: string; function_args?: Array<{ repr: string; name: string; type: string }> };
+  [key: string]: any;
+}
+
+export interface TransactionPage {
+  limit: number;
+  offset: number;
+  total: number;
+  results: StacksTransaction[];
+}
+
+export interface AccountBalances {
+  stx: { balance: string; total_sent: string; total_received: string; locked?: string };
+  fungible_tokens: Record<string, { balance: string; total_sent: string; total_received: string }>;
+  non_fungible_tokens: Record<string, { count: string; total_sent: string; total_received: string }>;
+}
+
+export interface AssetPage {
+  limit: number;
+  offset: number;
+  total: number;
+  results: Array<Record<string, any>>;
+}
+
+export interface ContractSource {
+  source: string;
+  publish_height: number;
+}
+
+export interface ContractInfo {
+  tx_id: string;          // the deploy transaction
+  contract_id: string;
+  block_height: number;
+  source_code: string;
+  canonical: boolean;
+}
+
+export interface ContractInterface {
+  functions: Array<{ name: string; access: 'public' | 'read_only' | 'private'; args: Array<{ name: string; type: any }>; outputs: { type: any } }>;
+  variables: Array<{ name: string; type: any; access: 'constant' | 'variable' }>;
+  maps: Array<{ name: string; key: any; value: any }>;
+  fungible_tokens: Array<{ name: string }>;
+  non_fungible_tokens: Array<{ name: string; type: any }>;
+}
+
+export interface ContractEvent {
+  event_index: number;
+  event_type: 'smart_contract_log' | 'stx_lock' | 'stx_asset' | 'fungible_token_asset' | 'non_fungible_token_asset';
+  tx_id: string;
+  asset?: { asset_event_type: 'transfer' | 'mint' | 'burn'; asset_id?: string; sender?: string; recipient?: string; amount?: string };
+  [key: string]: any;
+}
+
+export interface ContractEventPage {
+  limit: number;
+  offset: number;
+  results: ContractEvent[];
+}
+
+export interface FtHolderPage {
+  limit: number;
+  offset: number;
+  total: number;
+  total_supply: string;
+  results: Array<{ address: string; balance: string }>; // largest balances first
+}
+
+export interface FtMetadata {
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  total_supply?: string;
+  token_uri?: string;
+  [key: string]: any;
+}
+
+export interface BnsName {
+  address: string;
+  blockchain: string;
+  status?: string;
+  zonefile_hash?: string;
+  [key: string]: any;
+}
+
+export interface StacksClientOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  cacheTtlMs?: number;
+  maxRetries?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Cache size at which expired entries are swept on the next write
+const CACHE_SWEEP_SIZE = 500;
+
+/**
+ * Typed client for the Hiro Stacks API shared by every agent. GETs are cached
+ * for a short TTL and identical in-flight requests share one HTTP call, so
+ * analyzers asking for the same principal's balances or history do not hit
+ * Hiro twice. 429s and 5xx are retried with exponential backoff (honouring
+ * Retry-After).
+ */
+export class StacksApiClient {
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly options: StacksClientOptions = {}) {}
+
+  // Read lazily: agents call dotenv.config() after their imports have loaded this module
+  private get baseUrl(): string {
+    return (this.options.baseUrl || process.env.STACKS_API_URL || 'https://api.hiro.so').replace(/\/+$/, '');
+  }
+
+  private get cacheTtlMs(): number {
+    return this.options.cacheTtlMs ?? Number(process.env.STACKS_API_CACHE_TTL_MS || 30000);
+  }
+
+  private get maxRetries(): number {
+    return this.options.maxRetries ?? Number(process.env.STACKS_API_MAX_RETRIES || 3);
+  }
+
+  private get headers(): Record<string, string> {
+    const apiKey = this.options.apiKey || process.env.HIRO_API_KEY;
+    return apiKey ? { 'x-hiro-api-key': apiKey } : {};
+  }
+
+  async get<T>(path: string): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+
+    const cached = this.cache.get(url);
+    if (cached && cached.expiresAt > Date.now()) return cached.value as T;
+
+    const pending = this.inFlight.get(url);
+    if (pending) return pending as Promise<T>;
+
+    const request = this.fetchWithRetry<T>(url)
+      .then(value => {
+        this.remember(url, value);
+        return value;
+      })
+      .finally(() => this.inFlight.delete(url));
+    this.inFlight.set(url, request);
+    return request;
+  }
+
+  private async fetchWithRetry<T>(url: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.get<T>(url, {
+          timeout: this.options.timeoutMs ?? Number(process.env.STACKS_API_TIMEOUT_MS || 10000),
+          headers: this.headers
+        });
+        return response.data;
+      } catch (error: any) {
+        const status = (error as AxiosError).response?.status;
+        const retryable = status === 429 || (status !== undefined && status >= 500);
+        if (!retryable || attempt >= this.maxRetries) throw error;
+
+        const retryAfter = Number((error as AxiosError).response?.headers?.['retry-after']);
+        const delay = retryAfter > 0 ? retryAfter * 1000 : 500 * 2 ** attempt;
+        console.warn(`⏳ Stacks API ${status} on ${url}, retrying in ${delay}ms (${attempt + 1}/${this.maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private remember(url: string, value: unknown) {
+    if (this.cacheTtlMs <= 0) return;
+    if (this.cache.size >= CACHE_SWEEP_SIZE) {
+      const now = Date.now();
+      for (const [key, entry] of this.cache) {
+        if (entry.expiresAt <= now) this.cache.delete(key);
+      }
+    }
+    this.cache.set(url, { value, expiresAt: Date.now() + this.cacheTtlMs });
+  }
+
+  getTransaction(txId: string): Promise<StacksTransaction> {
+    return this.get(`/extended/v1/tx/${txId}`);
+  }
+
+  getTransactions(principal: string, limit = 50, offset = 0): Promise<TransactionPage> {
+    return this.get(`/extended/v1/address/${principal}/transactions?limit=${limit}&offset=${offset}`);
+  }
+
+  getBalances(principal: string): Promise<AccountBalances> {
+    return this.get(`/extended/v1/address/${principal}/balances`);
+  }
+
+  getAssets(principal: string): Promise<AssetPage> {
+    return this.get(`/extended/v1/address/${principal}/assets`);
+  }
+
+  getContractSource(contractId: string): Promise<ContractSource> {
+    const [principal, ...name] = contractId.split('.');
+    return this.get(`/v2/contracts/source/${principal}/${name.join('.')}`);
+  }
+
+  getContractInfo(contractId: string): Promise<ContractInfo> {
+    return this.get(`/extended/v1/contract/${contractId}`);
+  }
+
+  getContractInterface(contractId: string): Promise<ContractInterface> {
+    const [principal, ...name] = contractId.split('.');
+    return this.get(`/v2/contracts/interface/${principal}/${name.join('.')}`);
+  }
+
+  getContractEvents(contractId: string, limit = 50, offset = 0): Promise<ContractEventPage> {
+    return this.get(`/extended/v1/contract/${contractId}/events?limit=${limit}&offset=${offset}`);
+  }
+
+  // `assetId` is the fully qualified token, CONTRACT_ID::token-name
+  getFtHolders(assetId: string, limit = 50, offset = 0): Promise<FtHolderPage> {
+    return this.get(`/extended/v1/tokens/ft/${assetId}/holders?limit=${limit}&offset=${offset}`);
+  }
+
+  getFtMetadata(contractId: string): Promise<FtMetadata> {
+    return this.get(`/metadata/v1/ft/${contractId}`);
+  }
+
+  getBnsName(name: string): Promise<BnsName> {
+    return this.get(`/v1/names/${name}`);
+  }
+}
+
+export const stacksApi = new StacksApiClient();
@@ -0,0 +1,114 @@
+import { stacksApi } from './stacksClient';
+
+export type TargetKind = 'contract' | 'principal' | 'tx' | 'bns' | 'unresolved';
+
+/**
+ * What a request's `tokenAddress` points at, resolved once by the orchestrator
+ * and handed to every agent so they all analyse the same thing.
+ */
+export interface CanonicalTarget {
+  input: string;             // exactly what the requester sent
+  kind: TargetKind;          // how the input was interpreted
+  contractId: string | null; // PRINCIPAL.contract-name, when the input leads to a contract
+  principal: string | null;  // the contract's deployer, or the account itself
+  symbol: string | null;     // SIP-010 symbol from token metadata, when the contract is a fungible token
+  txId: string | null;       // set when the input was a tx hash
+  bnsName: string | null;    // set when the input was a BNS name
+}
+
+const TX_HASH = /^0x[0-9a-fA-F]{64}$/;
+const PRINCIPAL = /^S[PMTN][0-9A-HJKMNP-Z]{28,41}$/;
+const CONTRACT_ID = /^S[PMTN][0-9A-HJKMNP-Z]{28,41}\.[a-zA-Z][a-zA-Z0-9_-]*$/;
+const BNS_NAME = /^[a-z0-9_-]+\.[a-z0-9_-]+$/;
+
+// Symbols only exist for indexed fungible tokens; anything else simply has none
+async function lookupSymbol(contractId: string): Promise<string | null> {
+  try {
+    const metadata = await stacksApi.getFtMetadata(contractId);
+    return metadata.symbol || null;
+  } catch {
+    return null;
+  }
+}
+
+async function forContract(input: string, contractId: string, extra: Partial<CanonicalTarget> = {}): Promise<CanonicalTarget> {
+  return {
+    input,
+    kind: 'contract',
+    contractId,
+    principal: contractId.split('.')[0],
+    symbol: await lookupSymbol(contractId),
+    txId: null,
+    bnsName: null,
+    ...extra
+  };
+}
+
+/**
+ * Resolves a contract ID, principal, tx hash or BNS name (e.g. `foo.btc`) into
+ * a canonical target. Free text that matches none of these comes back as
+ * `unresolved`; a tx hash or BNS name that Hiro cannot find throws.
+ */
+export async function resolveTarget(rawInput: string): Promise<CanonicalTarget> {
+  const input = rawInput.trim();
+
+  if (CONTRACT_ID.test(input)) return forContract(input, input);
+
+  if (PRINCIPAL.test(input)) {
+    return { input, kind: 'principal', contractId: null, principal: input, symbol: null, txId: null, bnsName: null };
+  }
+
+  if (TX_HASH.test(input)) {
+    const tx = await stacksApi.getTransaction(input);
+    // A deploy points at the new contract, a call at the called one; anything else at its sender
+    const contractId = tx.smart_contract?.contract_id || tx.contract_call?.contract_id;
+    if (contractId) return forContract(input, contractId, { kind: 'tx', txId: input });
+    if (!tx.sender_address) throw new Error(`Cannot resolve tx ${input} to a Stacks address`);
+    return { input, kind: 'tx', contractId: null, principal: tx.sender_address, symbol: null, txId: input, bnsName: null };
+  }
+
+  if (BNS_NAME.test(input.toLowerCase())) {
+    const bnsName = input.toLowerCase();
+    const name = await stacksApi.getBnsName(bnsName).catch((error: any) => {
+      throw new Error(`BNS name ${bnsName} not found: ${error.message}`);
+    });
+    if (!name.address) throw new Error(`BNS name ${bnsName} has no owner address`);
+    // A name can be owned by a contract as well as by an account
+    if (CONTRACT_ID.test(name.address)) return forContract(input, name.address, { kind: 'bns', bnsName });
+    return { input, kind: 'bns', contractId: null, principal: name.address, symbol: null, txId: null, bnsName };
+  }
+
+  return { input, kind: 'unresolved', contractId: null, principal: null, symbol: null, txId: null, bnsName: null };
+}
+
+const TARGET_KINDS: TargetKind[] = ['contract', 'principal', 'tx', 'bns', 'unresolved'];
+
+const nullOr = (value: unknown, pattern: RegExp) => value === null || (typeof value === 'string' && pattern.test(value));
+
+/**
+ * Whether `value` has the shape resolveTarget gives each kind of target, so an
+ * agent can take one from a request body without resolving it again.
+ */
+export function isCanonicalTarget(value: unknown): value is CanonicalTarget {
+  if (!value || typeof value !== 'object') return false;
+  const t = value as Record<string, unknown>;
+  if (typeof t.input !== 'string' || t.input.trim() !== t.input || t.input === '') return false;
+  if (!TARGET_KINDS.includes(t.kind as TargetKind)) return false;
+  if (!nullOr(t.contractId, CONTRACT_ID) || !nullOr(t.principal, PRINCIPAL) || !nullOr(t.txId, TX_HASH) || !nullOr(t.bnsName, BNS_NAME)) return false;
+  if (t.symbol !== null && typeof t.symbol !== 'string') return false;
+
+  const contractId = t.contractId as string | null;
+  if (contractId !== null && t.principal !== contractId.split('.')[0]) return false;
+  switch (t.kind) {
+    case 'contract': return contractId === t.input && t.txId === null && t.bnsName === null;
+    case 'principal': return t.principal === t.input && contractId === null && t.txId === null && t.bnsName === null;
+    case 'tx': return t.txId === t.input && t.principal !== null && t.bnsName === null;
+    case 'bns': return t.bnsName === t.input.toLowerCase() && t.principal !== null && t.txId === null;
+    default: return contractId === null && t.principal === null && t.symbol === null && t.txId === null && t.bnsName === null;
+  }
+}
+
+// The address most analyzers work from: the contract when there is one, else the account
+export function targetAddress(target: CanonicalTarget): string {
+  return target.contractId || target.principal || target.input;
+}
@@ -0,0 +1,75 @@
+import { stacksApi, StacksTransaction } from './stacksClient';
+
+// Hiro caps /transactions pages at 50
+const PAGE_SIZE = 50;
+
+export interface TxWalkOptions {
+  maxTransactions?: number; // depth: stop once this many have been collected (default TX_HISTORY_MAX_TRANSACTIONS or 500)
+  windowDays?: number;      // time window: stop at the first tx older than this (default TX_HISTORY_WINDOW_DAYS, 0 = no limit)
+  stopWhen?: (tx: StacksTransaction) => boolean; // early stop once the caller has seen enough; the matching tx is kept
+}
+
+export interface TxSample {
+  transactions: StacksTransaction[]; // newest first
+  total: number;                     // all transactions Hiro knows for the principal
+  sampleSize: number;
+  pages: number;
+  complete: boolean;                 // true when the whole history was read
+  stoppedBy: 'exhausted' | 'depth' | 'window' | 'condition';
+}
+
+/**
+ * Walks a principal's transactions newest-first, page by page, until the
+ * history runs out, the depth or time window is reached, or `stopWhen` fires.
+ * Pages go through the shared client, so they are cached and coalesced.
+ */
+export async function walkTransactions(principal: string, options: TxWalkOptions = {}): Promise<TxSample> {
+  const maxTransactions = options.maxTransactions ?? Number(process.env.TX_HISTORY_MAX_TRANSACTIONS || 500);
+  const windowDays = options.windowDays ?? Number(process.env.TX_HISTORY_WINDOW_DAYS || 0);
+  const cutoff = windowDays > 0 ? Date.now() / 1000 - windowDays * 86400 : null;
+
+  const transactions: StacksTransaction[] = [];
+  let total = 0;
+  let pages = 0;
+  let stoppedBy: TxSample['stoppedBy'] = 'exhausted';
+
+  walk: while (true) {
+    const page = await stacksApi.getTransactions(principal, PAGE_SIZE, pages * PAGE_SIZE);
+    pages++;
+    total = page.total || 0;
+    const results = page.results || [];
+
+    for (const tx of results) {
+      if (cutoff !== null && tx.burn_block_time && tx.burn_block_time < cutoff) {
+        stoppedBy = 'window';
+        break walk;
+      }
+      transactions.push(tx);
+      if (options.stopWhen?.(tx)) {
+        stoppedBy = 'condition';
+        break walk;
+      }
+      if (transactions.length >= maxTransactions) {
+        stoppedBy = 'depth';
+        break walk;
+      }
+    }
+
+    if (results.length < PAGE_SIZE || pages * PAGE_SIZE >= total) break;
+  }
+
+  return {
+    transactions,
+    total,
+    sampleSize: transactions.length,
+    pages,
+    complete: transactions.length >= total,
+    stoppedBy: transactions.length >= total ? 'exhausted' : stoppedBy
+  };
+}
+
+// Sample stats for an agent's metadata, without the transactions themselves
+export function describeSample(sample: TxSample): Omit<TxSample, 'transactions'> {
+  const { transactions: _transactions, ...summary } = sample;
+  return summary;
+}
@@ -0,0 +1,47 @@
+import { CanonicalTarget } from './target';
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+// What an analyzer hands back; the server maps it onto the wire response
+export interface AnalysisResult {
+  score: number;
+  riskLevel: RiskLevel;
+  issues: string[];
+  summary: string;
+  details: Record<string, any>;
+  confidence: number; // 0-1, how much weight the agent's own evidence deserves
+  scanTime: number;
+}
+
+export interface Analyzer {
+  analyze(target: CanonicalTarget): Promise<AnalysisResult>;
+}
+
+export interface AgentServerConfig {
+  id: string;
+  name: string;
+  type: string;
+  // Defaults; PORT, BASE_PRICE_MICROSTX, AGENT_NAME and AGENT_TYPE override them at runtime
+  port: number;
+  price: number;
+  estimatedTime: number;
+  icon: string;
+  analyzer: Analyzer;
+}
+
+// Body of /analyze and /analyze-free, consumed by the orchestrator's dispatcher
+export interface AgentAnalysisResponse {
+  agentId: string;
+  agentName: string;
+  score: number;
+  analysis: string;
+  riskLevel: RiskLevel;
+  flags: string[];
+  confidence: number;
+  metadata: {
+    detailedFindings: Record<string, any>;
+    scanTime: number;
+    price: number;
+  };
+  executionTime: number;
+}
@@ -17,7 +17,7 @@ interface Agent {
 }
 
 const agentMeta: Record<string, { icon: typeof Shield; color: string; desc: string }> = {
-  security: { icon: Shield, color: '#5546FF', desc: 'Contract source parsing, 12 vulnerability checks, SIP-010 compliance audit' },
+  security: { icon: Shield, color: '#5546FF', desc: 'Contract source parsing, rule-based vulnerability checks, SIP-010/009/013 compliance audit' },
   data: { icon: TrendingUp, color: '#22C55E', desc: 'On-chain tx patterns, unique addresses, velocity tracking, fee analysis' },
   social: { icon: Users, color: '#A855F7', desc: 'AI sentiment analysis via Gemini, narrative detection, risk scoring' },
   price: { icon: DollarSign, color: '#EAB308', desc: 'CoinGecko market data, 7d/30d trends, ATH tracking, volume analysis' },
@@ -8,6 +8,35 @@ interface Props {
   result: any;
 }
 
+type VerdictCode = 'LOW_RISK' | 'MEDIUM_RISK' | 'HIGH_RISK' | 'CRITICAL_RISK';
+
+interface VerdictRule {
+  id: string;
+  verdict: VerdictCode;
+  detail: string;
+}
+
+interface OutlierSide {
+  agentId: string;
+  agentName: string;
+  riskLevel: string;
+  score: number;
+  flags: string[];
+}
+
+interface Outlier extends OutlierSide {
+  summary: string;
+  opposing: OutlierSide[];
+}
+
+interface FunctionPrivilege {
+  name: string;
+  line: number;
+  access: 'permissionless' | 'owner-gated' | 'allow-list';
+  guards: string[];
+  capabilities: string[];
+}
+
 const riskConfig: Record<string, { color: string; bg: string; label: string }> = {
   LOW: { color: '#22C55E', bg: 'rgba(34,197,94,0.08)', label: 'Low Risk' },
   MEDIUM: { color: '#EAB308', bg: 'rgba(234,179,8,0.08)', label: 'Medium Risk' },
@@ -15,6 +44,33 @@ const riskConfig: Record<string, { color: string; bg: string; label: string }> =
   CRITICAL: { color: '#EF4444', bg: 'rgba(239,68,68,0.08)', label: 'Critical Risk' },
 };
 
+const verdictRisk: Record<VerdictCode, string> = {
+  LOW_RISK: 'LOW',
+  MEDIUM_RISK: 'MEDIUM',
+  HIGH_RISK: 'HIGH',
+  CRITICAL_RISK: 'CRITICAL',
+};
+
+const accessLabel: Record<FunctionPrivilege['access'], string> = {
+  'permissionless': 'Anyone',
+  'owner-gated': 'Owner',
+  'allow-list': 'Allow-list',
+};
+
+const capabilityLabel: Record<string, string> = {
+  'mint': 'Mint',
+  'burn': 'Burn',
+  'transfer-on-behalf': 'Transfer for others',
+  'change-owner': 'Change owner',
+  'as-contract-stx': 'Move contract STX',
+};
+
+const standardCompliance: Record<string, string> = {
+  'SIP-010': 'sip010Compliance',
+  'SIP-009': 'sip009Compliance',
+  'SIP-013': 'sip013Compliance',
+};
+
 const agentStyle: Record<string, { icon: any; color: string; bg: string }> = {
   SecurityAgent: { icon: Shield, color: '#5546FF', bg: 'rgba(85,70,255,0.1)' },
   DataAgent: { icon: TrendingUp, color: '#22C55E', bg: 'rgba(34,197,94,0.1)' },
@@ -85,7 +141,9 @@ function AgentDetails({ name, d }: { name: string; d: any }) {
             <Row label="Contract" value={d.contractMeta.name || '-'} />
             <Row label="Token Type" value={d.contractMeta.tokenType || 'Unknown'} />
             <Row label="Source" value={`${d.contractMeta.sourceLines} lines / ${d.contractMeta.sourceBytes} bytes`} />
-            <Row label="SIP-010" value={`${d.contractMeta.sip010Compliance}% compliant`} />
+            {d.contractMeta.standard && (
+              <Row label={d.contractMeta.standard} value={`${d.contractMeta[standardCompliance[d.contractMeta.standard]] ?? '-'}% compliant`} />
+            )}
             {d.contractMeta.publicFunctions?.length > 0 && <Row label="Public Fns" value={d.contractMeta.publicFunctions.join(', ')} />}
             {d.contractMeta.readOnlyFunctions?.length > 0 && <Row label="Read-Only" value={d.contractMeta.readOnlyFunctions.join(', ')} />}
             {d.contractMeta.dataVars?.length > 0 && <Row label="Data Vars" value={d.contractMeta.dataVars.join(', ')} />}
@@ -94,6 +152,37 @@ function AgentDetails({ name, d }: { name: string; d: any }) {
           </div>
         </Section>
       )}
+      {d.privilegeMap?.length > 0 && (
+        <Section title={`Function Privileges (${d.privilegeMap.length})`}>
+          <div className="overflow-x-auto rounded-lg bg-[var(--background)]">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-wider text-[var(--muted)]">
+                  <th className="px-3 py-2 font-semibold">Function</th>
+                  <th className="px-3 py-2 font-semibold">Who can call</th>
+                  <th className="px-3 py-2 font-semibold">Can</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(d.privilegeMap as FunctionPrivilege[]).map(p => (
+                  <tr key={p.name} className="border-t border-[var(--border)] align-top">
+                    <td className="px-3 py-1.5 font-mono text-white">{p.name}</td>
+                    <td className="px-3 py-1.5">
+                      <span className={`badge badge-${p.access !== 'permissionless' ? 'medium' : p.capabilities.length > 0 ? 'high' : 'low'}`}>
+                        {accessLabel[p.access]}
+                      </span>
+                      {p.guards.length > 0 && <div className="mt-0.5 font-mono text-[10px] text-[var(--muted)] break-all">{p.guards.join(', ')}</div>}
+                    </td>
+                    <td className="px-3 py-1.5 text-[var(--muted-foreground)]">
+                      {p.capabilities.length > 0 ? p.capabilities.map(c => capabilityLabel[c] || c).join(', ') : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Section>
+      )}
       {d.vulnerabilities?.length > 0 && (
         <Section title={`Vulnerabilities (${d.vulnerabilities.length})`}>
           <div className="space-y-2">
@@ -265,9 +354,7 @@ export default function ConsensusReport({ result }: Props) {
   const { consensus, agentCount, request } = result;
   const [expandedAgent, setExpandedAgent] = useState<number | null>(null);
 
-  const overallRisk = consensus.recommendation.includes('LOW RISK') || consensus.recommendation.includes('APPEARS SAFE')
-    ? 'LOW' : consensus.recommendation.includes('HIGH RISK') || consensus.recommendation.includes('AVOID')
-    ? 'HIGH' : consensus.recommendation.includes('CRITICAL') ? 'CRITICAL' : 'MEDIUM';
+  const overallRisk = verdictRisk[consensus.verdict?.verdict as VerdictCode] || 'MEDIUM';
 
   const risk = riskConfig[overallRisk];
   const payments = consensus.responses.map((r: any) => decodePayment(r)).filter(Boolean);
@@ -285,8 +372,13 @@ export default function ConsensusReport({ result }: Props) {
                  <XCircle className="h-5 w-5" style={{ color: risk.color }} />}
                 <span className="text-xs font-semibold uppercase tracking-wider" style={{ color: risk.color }}>{risk.label}</span>
               </div>
-              <h2 className="text-xl font-bold text-white mb-1">{consensus.recommendation}</h2>
-              <p className="text-sm text-[var(--muted)]">{agentCount} agents analyzed &middot; {request?.tokenAddress?.split('.').pop() || request?.query}</p>
+              <h2 className="text-xl font-bold text-white mb-1">{consensus.verdict?.label || consensus.recommendation}</h2>
+              {consensus.verdict?.rulesFired?.length > 0 && (
+                <p className="text-[11px] text-[var(--muted)] mb-1">
+                  {consensus.verdict.rulesFired.map((rule: VerdictRule) => rule.detail).join(' · ')}
+                </p>
+              )}
+              <p className="text-sm text-[var(--muted)]">{agentCount} agents analyzed &middot; {request?.target?.symbol || request?.tokenAddress?.split('.').pop() || request?.query}</p>
             </div>
             <ScoreRing score={consensus.averageScore} size={100} />
           </div>
@@ -296,7 +388,7 @@ export default function ConsensusReport({ result }: Props) {
       {/* Stats Grid */}
       <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
         {[
-          { label: 'Consensus', value: `${Math.round(consensus.consensusStrength * 100)}%`, sub: 'Agent Agreement' },
+          { label: 'Consensus', value: `${Math.round(consensus.consensusStrength * 100)}%`, sub: consensus.strategy ? `Agent Agreement · ${consensus.strategy}` : 'Agent Agreement' },
           { label: 'Confidence', value: `${consensus.confidence}%`, sub: 'Score Reliability' },
           { label: 'Total Cost', value: `${(consensus.totalCost / 1_000_000).toFixed(4)} STX`, sub: `${payments.length} x402 payments` },
           { label: 'Agents', value: `${agentCount}`, sub: 'Active Analyzers' },
@@ -309,6 +401,43 @@ export default function ConsensusReport({ result }: Props) {
         ))}
       </div>
 
+      {/* Disagreements */}
+      {consensus.outliers?.length > 0 && (
+        <div className="card p-6">
+          <h3 className="text-sm font-semibold text-white mb-4 flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-[#F97316]" />
+            Disagreements ({consensus.outliers.length})
+          </h3>
+          <div className="space-y-3">
+            {consensus.outliers.map((outlier: Outlier) => (
+              <div key={outlier.agentId} className="rounded-xl border border-[var(--border)] bg-[var(--background)] p-4">
+                <p className="text-xs text-[var(--muted-foreground)] mb-3">{outlier.summary}</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {[outlier, ...outlier.opposing].map((side, i) => (
+                    <div key={side.agentId} className={`rounded-lg p-3 ${i === 0 ? 'bg-[rgba(249,115,22,0.06)]' : 'bg-white/[0.02]'}`}>
+                      <div className="flex items-center gap-2 mb-1.5">
+                        <span className="text-xs font-semibold text-white">{side.agentName}</span>
+                        <span className={`badge badge-${side.riskLevel.toLowerCase()}`}>{side.riskLevel}</span>
+                        <span className="text-[10px] text-[var(--muted)]">{side.score}/100</span>
+                      </div>
+                      {side.flags.length > 0 ? (
+                        <ul className="space-y-1">
+                          {side.flags.slice(0, 3).map((flag, j) => (
+                            <li key={j} className="text-[11px] text-[var(--muted-foreground)]">{flag}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-[11px] text-[var(--muted)]">No flags raised</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Agent Responses */}
       <div className="card p-6">
         <h3 className="text-sm font-semibold text-white mb-4 flex items-center gap-2">
@@ -323,6 +452,7 @@ export default function ConsensusReport({ result }: Props) {
             const payment = decodePayment(response);
             const agRisk = riskConfig[response.riskLevel] || riskConfig.MEDIUM;
             const findings = response.metadata?.detailedFindings || {};
+            const weight = consensus.weights?.find((w: { agentId: string }) => w.agentId === response.agentId);
 
             return (
               <motion.div key={idx} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.15 + idx * 0.06 }}
@@ -344,6 +474,11 @@ export default function ConsensusReport({ result }: Props) {
                     <div className="text-right">
                       <div className="text-lg font-bold" style={{ color: agRisk.color }}>{response.score}</div>
                       <div className="text-[10px] text-[var(--muted)]">{response.executionTime}ms</div>
+                      {weight && (
+                        <div className="text-[10px] text-[var(--muted)]" title={`type ${weight.typeWeight} × reputation ${weight.reputation} × confidence ${weight.confidence}`}>
+                          {Math.round(weight.share * 100)}% weight
+                        </div>
+                      )}
                     </div>
                     <ChevronDown className={`h-4 w-4 text-[var(--muted)] transition-transform duration-200 ${expanded ? 'rotate-180' : ''}`} />
                   </div>
@@ -450,7 +585,12 @@ export default function ConsensusReport({ result }: Props) {
       {/* Query Footer */}
       <div className="rounded-lg bg-[var(--surface)] border border-[var(--border)] px-4 py-3 flex items-center justify-between text-xs text-[var(--muted)]">
         <span>Query: &ldquo;{request?.query}&rdquo;</span>
-        {request?.tokenAddress && <span className="mono text-[10px]">{request.tokenAddress}</span>}
+        {request?.tokenAddress && (
+          <span className="mono text-[10px]">
+            {request.tokenAddress}
+            {request.target?.contractId && request.target.contractId !== request.tokenAddress && <> &rarr; {request.target.contractId}</>}
+          </span>
+        )}
       </div>
     </div>
   );
@@ -124,7 +124,7 @@ export default function HomeContent() {
               {/* Feature cards */}
               <div className="mx-auto mt-24 grid max-w-4xl grid-cols-1 gap-4 sm:grid-cols-3">
                 {[
-                  { icon: Shield, title: 'Security Audit', desc: 'Contract source parsing, 12 vulnerability checks, SIP-010 compliance', color: '#5546FF' },
+                  { icon: Shield, title: 'Security Audit', desc: 'Contract source parsing, rule-based vulnerability checks, SIP-010/009/013 compliance', color: '#5546FF' },
                   { icon: Eye, title: 'On-Chain Intel', desc: 'Real-time tx patterns, holder analysis, fee metrics, velocity tracking', color: '#22C55E' },
                   { icon: Lock, title: 'x402 Payments', desc: 'Each agent paid per-query via HTTP 402 protocol — verifiable on-chain', color: '#FC6432' }
                 ].map((f, i) => (
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import axios from 'axios';
-import { Search, Loader2, AlertTriangle, Coins, Shield, TrendingUp, Users, DollarSign, Clock, Zap } from 'lucide-react';
+import { Search, Loader2, AlertTriangle, Coins, Shield, TrendingUp, Users, DollarSign, Clock, Zap, XCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface Props {
@@ -10,13 +10,31 @@ interface Props {
   onResult: (result: any) => void;
 }
 
-const agents = [
-  { name: 'SecurityAgent', icon: Shield, color: '#5546FF', desc: 'Auditing contract...' },
-  { name: 'DataAgent', icon: TrendingUp, color: '#22C55E', desc: 'Analyzing on-chain data...' },
-  { name: 'SocialAgent', icon: Users, color: '#A855F7', desc: 'Running sentiment AI...' },
-  { name: 'PriceAgent', icon: DollarSign, color: '#EAB308', desc: 'Fetching market data...' },
-  { name: 'HistoryAgent', icon: Clock, color: '#06B6D4', desc: 'Scanning creator wallet...' },
-];
+// Progress row look per agent type; any agent the auction picked gets a row, registered or built in
+const agentStyles: Record<string, { icon: typeof Shield; color: string; desc: string }> = {
+  security: { icon: Shield, color: '#5546FF', desc: 'Auditing contract...' },
+  data: { icon: TrendingUp, color: '#22C55E', desc: 'Analyzing on-chain data...' },
+  social: { icon: Users, color: '#A855F7', desc: 'Running sentiment AI...' },
+  price: { icon: DollarSign, color: '#EAB308', desc: 'Fetching market data...' },
+  history: { icon: Clock, color: '#06B6D4', desc: 'Scanning creator wallet...' },
+};
+
+const fallbackStyle = { icon: Zap, color: '#94A3B8', desc: 'Analyzing...' };
+
+interface RunAgent {
+  agentId: string;
+  agentName: string;
+  agentType: string;
+}
+
+type AgentStatus = 'queued' | 'running' | 'paid' | 'done' | 'failed';
+
+const statusByEvent: Record<string, AgentStatus> = {
+  agent_dispatched: 'running',
+  agent_paid: 'paid',
+  agent_completed: 'done',
+  agent_failed: 'failed',
+};
 
 const exampleTokens = [
   { label: 'DBIT', addr: 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.brc20-dbit' },
@@ -30,18 +48,50 @@ export default function IntelligenceRequest({ userAddress, onResult }: Props) {
   const [error, setError] = useState<string | null>(null);
   const [budget, setBudget] = useState(500000);
   const [elapsed, setElapsed] = useState(0);
+  const [runAgents, setRunAgents] = useState<RunAgent[]>([]);
+  const [agentStatus, setAgentStatus] = useState<Record<string, AgentStatus>>({});
+  const [consensusReady, setConsensusReady] = useState(false);
+
+  // Follow the orchestrator's event stream until the run completes or fails
+  const streamResult = (eventsUrl: string) => new Promise<unknown>((resolve, reject) => {
+    const source = new EventSource(`${process.env.NEXT_PUBLIC_ORCHESTRATOR_URL}${eventsUrl}`);
+
+    Object.entries(statusByEvent).forEach(([type, status]) => {
+      source.addEventListener(type, (e) => {
+        const { agentId } = JSON.parse((e as MessageEvent).data);
+        setAgentStatus(prev => ({ ...prev, [agentId]: status }));
+      });
+    });
+    source.addEventListener('consensus', () => setConsensusReady(true));
+    source.addEventListener('complete', (e) => {
+      source.close();
+      resolve(JSON.parse((e as MessageEvent).data).result);
+    });
+    source.addEventListener('request_failed', (e) => {
+      source.close();
+      const failure = JSON.parse((e as MessageEvent).data);
+      reject(new Error(failure.error === 'INSUFFICIENT_COVERAGE' ? `Not enough agents answered: ${failure.message}` : failure.error));
+    });
+    source.onerror = () => {
+      source.close();
+      reject(new Error('Lost connection to orchestrator'));
+    };
+  });
 
   const submitRequest = async () => {
     if (!query.trim()) return;
     setLoading(true);
     setError(null);
     setElapsed(0);
+    setRunAgents([]);
+    setAgentStatus({});
+    setConsensusReady(false);
 
     const timer = setInterval(() => setElapsed(p => p + 1), 1000);
 
     try {
-      const response = await axios.post(
-        `${process.env.NEXT_PUBLIC_ORCHESTRATOR_URL}/api/orchestrator/request`,
+      const start = await axios.post(
+        `${process.env.NEXT_PUBLIC_ORCHESTRATOR_URL}/api/orchestrator/request/start`,
         {
           query: query.trim(),
           tokenAddress: tokenAddress.trim() || undefined,
@@ -49,17 +99,24 @@ export default function IntelligenceRequest({ userAddress, onResult }: Props) {
           requesterAddress: userAddress,
           priority: 'high'
         },
-        { timeout: 120000 }
+        { timeout: 15000 }
       );
-      onResult(response.data);
+      const selected: RunAgent[] = start.data.agents;
+      setRunAgents(selected);
+      setAgentStatus(Object.fromEntries(selected.map(a => [a.agentId, 'queued' as AgentStatus])));
+      onResult(await streamResult(start.data.eventsUrl));
     } catch (err: any) {
-      setError(err.response?.data?.error || err.message || 'Request failed');
+      setError(err.response?.data?.error || err.response?.data?.message || err.message || 'Request failed');
     } finally {
       clearInterval(timer);
       setLoading(false);
     }
   };
 
+  const statuses = Object.values(agentStatus);
+  const finished = statuses.filter(s => s === 'done' || s === 'failed').length;
+  const progress = consensusReady ? 100 : statuses.length > 0 ? Math.round((finished / statuses.length) * 95) : 0;
+
   return (
     <div className="card-glow p-6">
       <div className="mb-6 flex items-center gap-3">
@@ -80,28 +137,34 @@ export default function IntelligenceRequest({ userAddress, onResult }: Props) {
               <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center gap-2 text-sm">
                   <Zap className="h-4 w-4 text-[var(--stacks-orange)]" />
-                  <span className="font-semibold text-white">Dispatching to 5 Agents</span>
+                  <span className="font-semibold text-white">Dispatching to {runAgents.length || Object.keys(agentStyles).length} Agents</span>
                 </div>
                 <span className="text-xs text-[var(--muted)] font-mono">{elapsed}s</span>
               </div>
 
               <div className="space-y-2">
-                {agents.map((ag, i) => {
+                {runAgents.map((agent, i) => {
+                  const ag = agentStyles[agent.agentType] || fallbackStyle;
                   const Icon = ag.icon;
-                  const isActive = elapsed >= i * 1.5;
-                  const isDone = elapsed >= i * 1.5 + 8;
+                  const status = agentStatus[agent.agentId] || 'queued';
+                  const isActive = status !== 'queued';
+                  const isDone = status === 'done' || status === 'failed';
                   return (
-                    <motion.div key={ag.name} initial={{ opacity: 0, x: -10 }} animate={{ opacity: isActive ? 1 : 0.3, x: 0 }} transition={{ delay: i * 0.1 }}
+                    <motion.div key={agent.agentId} initial={{ opacity: 0, x: -10 }} animate={{ opacity: isActive ? 1 : 0.3, x: 0 }} transition={{ delay: i * 0.1 }}
                       className="flex items-center gap-3 rounded-xl px-4 py-2.5"
                       style={{ background: isActive && !isDone ? ag.color + '08' : 'transparent', borderLeft: isActive && !isDone ? `2px solid ${ag.color}` : '2px solid transparent' }}>
                       <div className="flex h-8 w-8 items-center justify-center rounded-lg" style={{ background: ag.color + '15' }}>
                         <Icon className="h-4 w-4" style={{ color: ag.color }} />
                       </div>
                       <div className="flex-1">
-                        <div className="text-xs font-medium text-white">{ag.name}</div>
-                        <div className="text-[10px] text-[var(--muted)]">{isActive ? ag.desc : 'Waiting...'}</div>
+                        <div className="text-xs font-medium text-white">{agent.agentName}</div>
+                        <div className="text-[10px] text-[var(--muted)]">
+                          {status === 'paid' ? 'Paid via x402, analyzing...' : status === 'failed' ? 'Agent failed' : isActive ? ag.desc : 'Waiting...'}
+                        </div>
                       </div>
-                      {isDone ? (
+                      {status === 'failed' ? (
+                        <XCircle className="h-3.5 w-3.5 text-[var(--critical)]" />
+                      ) : isDone ? (
                         <span className="text-[10px] text-[var(--success)] font-medium">Done</span>
                       ) : isActive ? (
                         <Loader2 className="h-3.5 w-3.5 animate-spin" style={{ color: ag.color }} />
@@ -116,10 +179,10 @@ export default function IntelligenceRequest({ userAddress, onResult }: Props) {
               {/* Progress bar */}
               <div className="mt-4 h-1.5 rounded-full bg-[var(--border)] overflow-hidden">
                 <motion.div className="h-full rounded-full" style={{ background: 'var(--stacks-gradient)' }}
-                  initial={{ width: '0%' }} animate={{ width: `${Math.min(elapsed * 3, 95)}%` }} transition={{ duration: 0.5 }} />
+                  initial={{ width: '0%' }} animate={{ width: `${progress}%` }} transition={{ duration: 0.5 }} />
               </div>
               <div className="mt-2 text-[10px] text-[var(--muted)] text-center">
-                Paying agents via x402 micropayments on Stacks testnet...
+                {consensusReady ? 'Computing consensus report...' : 'Paying agents via x402 micropayments on Stacks testnet...'}
               </div>
             </div>
           </motion.div>
@@ -135,11 +198,11 @@ export default function IntelligenceRequest({ userAddress, onResult }: Props) {
 
             <div>
               <label className="mb-1.5 flex items-center justify-between text-xs font-medium text-[var(--muted-foreground)]">
-                <span>Token / Contract Address</span>
+                <span>Token / Contract Address or BNS Name</span>
                 <span className="text-[var(--muted)] text-[10px]">optional</span>
               </label>
               <input type="text" value={tokenAddress} onChange={(e) => setTokenAddress(e.target.value)}
-                placeholder="SP1ABC...contract-name or 0x... tx hash"
+                placeholder="SP1ABC...contract-name, 0x... tx hash or name.btc"
                 className="w-full rounded-xl border border-[var(--border)] bg-[var(--background)] px-4 py-3 text-sm text-white placeholder-[var(--muted)] outline-none transition-all focus:border-[var(--stacks-purple)] focus:ring-1 focus:ring-[var(--stacks-purple)]/20 font-mono" />
               <div className="mt-2 flex gap-2">
                 {exampleTokens.map(t => (